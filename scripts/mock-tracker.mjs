@@ -0,0 +1,178 @@
+// Mock issue tracker for development: `npm run mock:tracker`
+// Serves the subset of the Jira REST API the app uses, with deterministic fake tickets.
+// Any key that looks like PROJ-123 exists unless its number ends in 0 (to exercise "not found").
+// Also stubs the worklog APIs under /tempo and /harvest; entries are kept in memory until restart.
+
+import { createServer } from 'node:http'
+
+const PORT = Number(process.env.MOCK_TRACKER_PORT || 4010)
+
+const STATUSES = [
+  { name: 'To Do', statusCategory: { key: 'new' } },
+  { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+  { name: 'In Review', statusCategory: { key: 'indeterminate' } },
+  { name: 'Done', statusCategory: { key: 'done' } }
+]
+
+const ISSUE_TYPES = [
+  { name: 'Story', hierarchyLevel: 0 },
+  { name: 'Bug', hierarchyLevel: 0 },
+  { name: 'Task', hierarchyLevel: 0 }
+]
+
+const SUBJECTS = ['login redirect', 'invoice export', 'dashboard filters', 'user permissions', 'search indexing', 'PDF rendering', 'webhook retries', 'audit log']
+const VERBS = ['Fix', 'Improve', 'Add', 'Refactor', 'Speed up', 'Validate']
+const EPICS = ['Billing overhaul', 'Customer portal', 'Platform upgrade', 'Reporting']
+
+function hash(text) {
+  let value = 0
+  for (const char of text) value = (value * 31 + char.charCodeAt(0)) >>> 0
+  return value
+}
+
+function createIssue(key) {
+  const [project] = key.split('-')
+  const seed = hash(key)
+  const epicIndex = seed % (EPICS.length + 1)
+
+  return {
+    id: String(seed),
+    key,
+    fields: {
+      summary: `${VERBS[seed % VERBS.length]} ${SUBJECTS[(seed >> 3) % SUBJECTS.length]}`,
+      status: STATUSES[(seed >> 5) % STATUSES.length],
+      issuetype: ISSUE_TYPES[(seed >> 7) % ISSUE_TYPES.length],
+      parent: epicIndex < EPICS.length
+        ? {
+            key: `${project}-${epicIndex + 1}`,
+            fields: { summary: EPICS[epicIndex], issuetype: { name: 'Epic', hierarchyLevel: 1 } }
+          }
+        : undefined
+    }
+  }
+}
+
+// Ids handed out by the issue lookup, so Tempo entries (which carry only the id) can be logged with their key
+const issuesById = new Map()
+
+function findIssue(key) {
+  const match = key.toUpperCase().match(/^([A-Z][A-Z0-9]+)-(\d+)$/)
+  if (!match || match[2].endsWith('0')) return null
+  const issue = createIssue(`${match[1]}-${match[2]}`)
+  issuesById.set(issue.id, issue)
+  return issue
+}
+
+const worklogs = []
+
+function readJson(request) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch (error) {
+        reject(error)
+      }
+    })
+    request.on('error', reject)
+  })
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+// Like Jira Cloud, rejects the whole query when one of the keys does not exist
+function handleSearch(url, response) {
+  const jql = url.searchParams.get('jql') || ''
+  const keys = (jql.match(/key\s+in\s*\(([^)]*)\)/i)?.[1] || '')
+    .split(',')
+    .map(key => key.trim().replace(/^"|"$/g, ''))
+    .filter(Boolean)
+
+  const unknown = keys.filter(key => !findIssue(key))
+  if (unknown.length > 0) {
+    sendJson(response, 400, { errorMessages: unknown.map(key => `An issue with key '${key}' does not exist for field 'key'.`) })
+    return
+  }
+  sendJson(response, 200, { issues: keys.map(findIssue), isLast: true })
+}
+
+async function handleWorklog(format, request, response) {
+  let entry
+  try {
+    entry = await readJson(request)
+  } catch {
+    sendJson(response, 400, { errors: [{ message: 'Body is not valid JSON' }] })
+    return
+  }
+
+  // Tempo ids are taken as given: they may come from a cache that outlived the previous mock run,
+  // or be a plain key when the app has no issue tracker configured
+  const issueKey = format === 'tempo'
+    ? issuesById.get(String(entry.issueId))?.key || (entry.issueId ? String(entry.issueId) : null)
+    : entry.external_reference?.id
+  const seconds = format === 'tempo' ? entry.timeSpentSeconds : Math.round((entry.hours || 0) * 3600)
+  const date = format === 'tempo' ? entry.startDate : entry.spent_date
+
+  if (!issueKey || (format === 'harvest' && !findIssue(issueKey))) {
+    sendJson(response, 400, { errors: [{ message: `Issue ${issueKey || '(none)'} does not exist` }] })
+    return
+  }
+  if (!(seconds > 0) || !/^\d{4}-\d{2}-\d{2}$/.test(date || '')) {
+    sendJson(response, 400, { errors: [{ message: 'A positive duration and a date are required' }] })
+    return
+  }
+
+  const id = worklogs.length + 1
+  worklogs.push({ id, format, ...entry })
+  console.log(`  booked ${seconds / 3600}h on ${issueKey} for ${date}`)
+  sendJson(response, 200, format === 'tempo' ? { tempoWorklogId: id, ...entry } : { id, ...entry })
+}
+
+const routes = [
+  { method: 'GET', pattern: /^\/rest\/api\/3\/search\/jql$/, handle: (_match, url, _request, response) => handleSearch(url, response) },
+  {
+    method: 'GET',
+    pattern: /^\/rest\/api\/2\/issue\/([^/]+)$/,
+    handle: (match, _url, _request, response) => {
+      const issue = findIssue(decodeURIComponent(match[1]))
+      if (issue) sendJson(response, 200, issue)
+      else sendJson(response, 404, { errorMessages: ['Issue does not exist or you do not have permission to see it.'] })
+    }
+  },
+  { method: 'POST', pattern: /^\/tempo\/worklogs$/, handle: (_match, _url, request, response) => handleWorklog('tempo', request, response) },
+  { method: 'POST', pattern: /^\/harvest\/time_entries$/, handle: (_match, _url, request, response) => handleWorklog('harvest', request, response) },
+  { method: 'GET', pattern: /^\/(tempo|harvest)\/(worklogs|time_entries)$/, handle: (match, _url, _request, response) => sendJson(response, 200, { results: worklogs.filter(entry => entry.format === match[1]) }) }
+]
+
+const server = createServer((request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*')
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept, Harvest-Account-Id, User-Agent')
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204)
+    response.end()
+    return
+  }
+
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`)
+  for (const route of routes) {
+    const match = url.pathname.match(route.pattern)
+    if (match && route.method === request.method) {
+      console.log(`${request.method} ${url.pathname}${url.search}`)
+      route.handle(match, url, request, response)
+      return
+    }
+  }
+
+  sendJson(response, 404, { errorMessages: [`No mock for ${request.method} ${url.pathname}`] })
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock issue tracker listening on http://localhost:${PORT}`)
+})
@@ -6,6 +6,10 @@ interface ImportMetaEnv {
   readonly VITE_BITBUCKET_PR_AUTHOR_DISPLAY_NAME: string
   readonly VITE_BITBUCKET_COMMIT_AUTHOR_RAW: string
   readonly VITE_BITBUCKET_BASE_URL: string
+  // Optional seeds for a new profile; the profile in Settings takes over from there
+  readonly VITE_BITBUCKET_AUTHOR_USERNAME?: string
+  readonly VITE_BITBUCKET_AUTHOR_EMAIL?: string
+  readonly VITE_BITBUCKET_WORKSPACES?: string
 }
 
 interface ImportMeta {
@@ -3,6 +3,9 @@ import Dashboard from '../components/Dashboard.vue'
 import DetailsPage from '../components/DetailsPage.vue'
 import SettingsPage from '../components/SettingsPage.vue'
 import CalendarPage from '../components/CalendarPage.vue'
+import TimesheetPage from '../components/TimesheetPage.vue'
+import TicketPage from '../components/TicketPage.vue'
+import RepoPage from '../components/RepoPage.vue'
 
 const routes: RouteRecordRaw[] = [
   {
@@ -20,10 +23,26 @@ const routes: RouteRecordRaw[] = [
     name: 'Calendar',
     component: CalendarPage
   },
+  {
+    path: '/timesheet',
+    name: 'Timesheet',
+    component: TimesheetPage
+  },
+  {
+    path: '/tickets/:key',
+    name: 'Ticket',
+    component: TicketPage
+  },
+  {
+    path: '/repos/:workspace/:name',
+    name: 'Repository',
+    component: RepoPage
+  },
   {
     path: '/settings',
     name: 'Settings',
-    component: SettingsPage
+    component: SettingsPage,
+    meta: { filters: false } // Shows no activity, so the filters in the URL are left alone
   }
 ]
 
@@ -0,0 +1,210 @@
+// Activity Cache - persistent IndexedDB store for fetched activity
+// Items are stored per provider connection and keyed by commit hash or pull request id,
+// so they survive reloads and are shared between date ranges. A sync record per provider
+// remembers which period is fully stored; activityService uses it to fetch only the gaps.
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { ActivitySyncState } from '../types/providers'
+
+const DB_NAME = 'hours-activity'
+const DB_VERSION = 1
+const ITEMS_STORE = 'items'
+const SYNC_STORE = 'sync'
+const PROVIDER_TIME_INDEX = 'providerTime'
+
+interface CachedActivity {
+  key: string;
+  providerId: string;
+  timestamp: number;
+  item: ProcessedCommit;
+}
+
+/**
+ * Stable identity of an activity item: the commit hash, or the pull request id within its repository.
+ */
+export function getActivityKey(item: ProcessedCommit): string {
+  if (item.commit_hash) return `commit:${item.commit_hash}`
+  return `pr:${item.repo}:${item.pr_id ?? item.pr ?? ''}`
+}
+
+export function getActivityTimestamp(item: ProcessedCommit): number {
+  const time = new Date(item.commit_date || item.pr_updated_on || '').getTime()
+  return Number.isNaN(time) ? 0 : time
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Deletes via a key cursor so the work stays inside the transaction without awaiting in between
+function deleteByIndex(transaction: IDBTransaction, range: IDBKeyRange): void {
+  const store = transaction.objectStore(ITEMS_STORE)
+  const request = store.index(PROVIDER_TIME_INDEX).openKeyCursor(range)
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    store.delete(cursor.primaryKey)
+    cursor.continue()
+  }
+}
+
+class ActivityCache {
+  private db: Promise<IDBDatabase | null> | null = null
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.db) return this.db
+
+    this.db = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        const items = db.createObjectStore(ITEMS_STORE, { keyPath: 'key' })
+        items.createIndex(PROVIDER_TIME_INDEX, ['providerId', 'timestamp'])
+        db.createObjectStore(SYNC_STORE, { keyPath: 'providerId' })
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // Private browsing or blocked storage: callers fall back to fetching without a cache
+        console.warn('IndexedDB unavailable, activity will not be cached:', request.error)
+        resolve(null)
+      }
+    })
+
+    return this.db
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return (await this.open()) !== null
+  }
+
+  private providerRange(providerId: string, from: number = 0, until: number = Infinity): IDBKeyRange {
+    return IDBKeyRange.bound([providerId, from], [providerId, until])
+  }
+
+  /**
+   * Stored items of a provider dated at or after `from`, and at or before `until`.
+   */
+  async getItems(providerId: string, from: number, until: number = Infinity): Promise<ProcessedCommit[]> {
+    const db = await this.open()
+    if (!db) return []
+
+    const index = db.transaction(ITEMS_STORE, 'readonly').objectStore(ITEMS_STORE).index(PROVIDER_TIME_INDEX)
+    const records = await promisify<CachedActivity[]>(index.getAll(this.providerRange(providerId, from, until)))
+    return records.map(record => record.item)
+  }
+
+  /**
+   * Inserts or updates items; a pull request that changed state replaces its earlier copy.
+   */
+  async putItems(providerId: string, items: ProcessedCommit[]): Promise<void> {
+    const db = await this.open()
+    if (!db || items.length === 0) return
+
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite')
+    const store = transaction.objectStore(ITEMS_STORE)
+    items.forEach(item => {
+      store.put({
+        key: `${providerId}|${getActivityKey(item)}`,
+        providerId,
+        timestamp: getActivityTimestamp(item),
+        // Strip Vue proxies and other non-cloneable values
+        item: JSON.parse(JSON.stringify(item))
+      } satisfies CachedActivity)
+    })
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Replaces everything a provider has stored from `from` onwards, used after a full refetch.
+   */
+  async replaceItems(providerId: string, from: number, items: ProcessedCommit[]): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite')
+    deleteByIndex(transaction, this.providerRange(providerId, from))
+    await transactionDone(transaction)
+
+    await this.putItems(providerId, items)
+  }
+
+  /**
+   * Removes a provider's stored items that belong to any of the given repositories.
+   */
+  async removeRepositories(providerId: string, repos: string[]): Promise<void> {
+    const db = await this.open()
+    if (!db || repos.length === 0) return
+
+    const removed = new Set(repos)
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite')
+    const request = transaction.objectStore(ITEMS_STORE).index(PROVIDER_TIME_INDEX).openCursor(this.providerRange(providerId))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      if (removed.has((cursor.value as CachedActivity).item.repo)) cursor.delete()
+      cursor.continue()
+    }
+    await transactionDone(transaction)
+  }
+
+  async getSyncState(providerId: string): Promise<ActivitySyncState | null> {
+    const db = await this.open()
+    if (!db) return null
+
+    const state = await promisify<ActivitySyncState | undefined>(
+      db.transaction(SYNC_STORE, 'readonly').objectStore(SYNC_STORE).get(providerId)
+    )
+    return state || null
+  }
+
+  async setSyncState(state: ActivitySyncState): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction(SYNC_STORE, 'readwrite')
+    transaction.objectStore(SYNC_STORE).put({ ...state })
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Removes stored activity for one provider, or for all providers when no id is given.
+   */
+  async clear(providerId: string | null = null): Promise<void> {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction([ITEMS_STORE, SYNC_STORE], 'readwrite')
+    if (providerId) {
+      deleteByIndex(transaction, this.providerRange(providerId))
+      transaction.objectStore(SYNC_STORE).delete(providerId)
+    } else {
+      transaction.objectStore(ITEMS_STORE).clear()
+      transaction.objectStore(SYNC_STORE).clear()
+    }
+    await transactionDone(transaction)
+    console.log('🗄️ Activity cache cleared' + (providerId ? ` for ${providerId}` : ''))
+  }
+}
+
+// Export singleton instance with proper typing
+export const activityCache = new ActivityCache()
+
+export default activityCache
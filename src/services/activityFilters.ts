@@ -0,0 +1,178 @@
+// Activity Filters - the filter model shared by every page
+// Dates are either a preset ("last N days") or a custom start/end range, which can lie in
+// the past. filterActivity applies all filters; the Dashboard skips the dates because it
+// compares the selected period with the one before.
+
+import { extractIssueId, filterByWorkspaces } from './activityUtils'
+import { filterByAuthors } from './teamMembers'
+import { toLocalDateKey } from './timesheetUtils'
+
+import type { AppFilters, PrState, ProcessedCommit } from '../types/bitbucket'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const PR_STATES: PrState[] = ['MERGED', 'OPEN', 'DECLINED', 'SUPERSEDED']
+
+export const DEFAULT_FILTERS: AppFilters = {
+  repos: [],
+  dateRange: 12,
+  startDate: null,
+  endDate: null,
+  authors: [],
+  workspaces: [],
+  type: 'all',
+  ticket: '',
+  branch: '',
+  prStates: []
+}
+
+export function hasCustomRange(filters: AppFilters): boolean {
+  return !!filters.startDate
+}
+
+// YYYY-MM-DD as local midnight
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Start and end of the selected period. A custom range covers whole days; a preset ends now.
+ */
+export function getDateBounds(filters: AppFilters, now: Date = new Date()): { start: Date; end: Date } {
+  if (filters.startDate) {
+    const start = parseDateKey(filters.startDate)
+    const end = filters.endDate ? parseDateKey(filters.endDate) : new Date(now)
+    end.setHours(23, 59, 59, 999)
+    return { start, end: end < start ? new Date(start.getTime() + DAY_MS - 1) : end }
+  }
+
+  const start = new Date(now)
+  start.setDate(now.getDate() - (filters.dateRange || DEFAULT_FILTERS.dateRange))
+  return { start, end: new Date(now) }
+}
+
+/**
+ * How many days back activity has to be fetched to cover the selected period.
+ */
+export function getFetchDays(filters: AppFilters, now: Date = new Date()): number {
+  if (!filters.startDate) return filters.dateRange || DEFAULT_FILTERS.dateRange
+  const { start } = getDateBounds(filters, now)
+  return Math.max(1, Math.ceil((now.getTime() - start.getTime()) / DAY_MS))
+}
+
+/**
+ * Day keys (YYYY-MM-DD) of every day in the selected period, oldest first.
+ */
+export function getPeriodDays(filters: AppFilters, now: Date = new Date()): string[] {
+  const { start, end } = getDateBounds(filters, now)
+  const days: string[] = []
+  const day = new Date(start)
+  day.setHours(0, 0, 0, 0)
+  // A preset of N days shows the last N days, today included
+  if (!hasCustomRange(filters)) day.setDate(day.getDate() + 1)
+  while (day <= end) {
+    days.push(toLocalDateKey(day))
+    day.setDate(day.getDate() + 1)
+  }
+  return days
+}
+
+export function getDateRangeLabel(filters: AppFilters): string {
+  if (filters.startDate) {
+    const format = (dateKey: string) => parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    return `${format(filters.startDate)} – ${filters.endDate ? format(filters.endDate) : 'today'}`
+  }
+
+  const days = filters.dateRange
+  if (days === 1) return 'Today'
+  if (days === 7) return 'Last 7 days'
+  if (days === 12) return 'Last 12 days'
+  if (days === 30) return 'Last 30 days'
+  return `Last ${days} days`
+}
+
+/**
+ * Custom range for a whole calendar month; `offset` 0 is this month, -1 last month.
+ */
+export function getMonthRange(offset: number, now: Date = new Date()): Pick<AppFilters, 'startDate' | 'endDate'> {
+  const first = new Date(now.getFullYear(), now.getMonth() + offset, 1)
+  const last = new Date(now.getFullYear(), now.getMonth() + offset + 1, 0)
+  return {
+    startDate: toLocalDateKey(first),
+    endDate: offset === 0 ? null : toLocalDateKey(last)
+  }
+}
+
+/**
+ * Custom range from Monday of the current week up to today.
+ */
+export function getWeekRange(now: Date = new Date()): Pick<AppFilters, 'startDate' | 'endDate'> {
+  const monday = new Date(now)
+  monday.setDate(now.getDate() - ((now.getDay() + 6) % 7))
+  return { startDate: toLocalDateKey(monday), endDate: null }
+}
+
+/**
+ * Whether a value matches a whole pattern with * wildcards. Case-insensitive.
+ */
+export function matchesWildcard(value: string, pattern: string): boolean {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${source}$`, 'i').test(value)
+}
+
+/**
+ * Branch names match a pattern with * wildcards, or contain it when it has none. Case-insensitive.
+ */
+export function matchesBranch(branch: string | null | undefined, pattern: string): boolean {
+  if (!pattern.trim()) return true
+  if (!branch) return false
+  if (!pattern.includes('*')) return branch.toLowerCase().includes(pattern.trim().toLowerCase())
+  return matchesWildcard(branch, pattern)
+}
+
+/**
+ * Ticket keys match the full key or any prefix of it, so "ASUITE" finds every ASUITE ticket.
+ */
+export function matchesTicket(item: ProcessedCommit, ticket: string): boolean {
+  if (!ticket.trim()) return true
+  const key = extractIssueId(item)
+  return !!key && key.toUpperCase().startsWith(ticket.trim().toUpperCase())
+}
+
+/**
+ * Applies every filter. `includeDates: false` leaves the period to the caller.
+ */
+export function filterActivity(items: ProcessedCommit[], filters: AppFilters, { includeDates = true } = {}): ProcessedCommit[] {
+  const { start, end } = getDateBounds(filters)
+  const repos = new Set(filters.repos)
+  const prStates = new Set(filters.prStates)
+
+  const filtered = items.filter((item: ProcessedCommit) => {
+    if (includeDates) {
+      const date = new Date(item.commit_date || item.pr_updated_on || '')
+      if (date < start || date > end) return false
+    }
+    if (repos.size > 0 && !repos.has(item.repo)) return false
+    if (filters.type === 'commits' && !item.commit_hash) return false
+    if (filters.type === 'pullrequests' && item.commit_hash) return false
+    if (prStates.size > 0 && (!item.pr_state || !prStates.has(item.pr_state))) return false
+    if (!matchesBranch(item.branch, filters.branch)) return false
+    return matchesTicket(item, filters.ticket)
+  })
+
+  return filterByAuthors(filterByWorkspaces(filtered, filters.workspaces), filters.authors)
+}
+
+/**
+ * Number of filters set besides the period, for "clear filters" affordances.
+ */
+export function countActiveFilters(filters: AppFilters): number {
+  return [
+    filters.repos.length > 0,
+    filters.type !== 'all',
+    !!filters.ticket.trim(),
+    !!filters.branch.trim(),
+    filters.prStates.length > 0
+  ].filter(Boolean).length
+}
@@ -0,0 +1,117 @@
+// Activity Groups - groups table rows by day, ticket, repository, branch or pull request
+// Groups can be nested (day -> ticket). Items keep the order they come in, so the table's
+// sort applies within every group; groups themselves are ordered newest first.
+
+import { extractIssueId, getCopyableText, getDisplayTitle } from './activityUtils'
+import { toLocalDateKey, NO_TICKET_LABEL } from './timesheetUtils'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { ActivityGroup, GroupKey } from '../types/groups'
+
+export const GROUP_KEYS: { key: GroupKey; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'ticket', label: 'Ticket' },
+  { key: 'repo', label: 'Repository' },
+  { key: 'branch', label: 'Branch' },
+  { key: 'pr', label: 'Pull request' }
+]
+
+const EMPTY_LABELS: Record<GroupKey, string> = {
+  day: 'No date',
+  ticket: NO_TICKET_LABEL,
+  repo: 'No repository',
+  branch: 'No branch',
+  pr: 'No pull request'
+}
+
+function getItemDate(item: ProcessedCommit): Date | null {
+  const date = new Date(item.commit_date || item.pr_updated_on || '')
+  return isNaN(date.getTime()) ? null : date
+}
+
+function getGroupValue(item: ProcessedCommit, key: GroupKey): string | null {
+  switch (key) {
+    case 'day': {
+      const date = getItemDate(item)
+      return date ? toLocalDateKey(date) : null
+    }
+    case 'ticket':
+      return extractIssueId(item)
+    case 'repo':
+      return item.repo || null
+    case 'branch':
+      return item.branch || null
+    case 'pr':
+      return item.pr_id ? `${item.repo}#${item.pr_id}` : null
+  }
+}
+
+function getGroupLabel(key: GroupKey, value: string | null, sample: ProcessedCommit): string {
+  if (value === null) return EMPTY_LABELS[key]
+  if (key === 'day') {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+  }
+  if (key === 'pr') return `#${sample.pr_id} ${sample.pr || ''}`.trim()
+  return value
+}
+
+/**
+ * Groups items by the given keys, outermost first.
+ */
+export function groupActivity(items: ProcessedCommit[], keys: GroupKey[], parentId: string = ''): ActivityGroup[] {
+  if (keys.length === 0) return []
+  const [key, ...nestedKeys] = keys
+
+  const byValue = new Map<string | null, ProcessedCommit[]>()
+  items.forEach(item => {
+    const value = getGroupValue(item, key)
+    if (!byValue.has(value)) byValue.set(value, [])
+    byValue.get(value)!.push(item)
+  })
+
+  const groups: ActivityGroup[] = [...byValue.entries()].map(([value, groupItems]) => {
+    const id = `${parentId}${key}:${value ?? ''}`
+    const times = groupItems.map(getItemDate).filter((date): date is Date => !!date).map(date => date.getTime())
+    return {
+      id,
+      key,
+      value,
+      label: getGroupLabel(key, value, groupItems[0]),
+      items: groupItems,
+      children: groupActivity(groupItems, nestedKeys, `${id}/`),
+      commits: groupItems.filter(item => item.commit_hash).length,
+      prs: groupItems.filter(item => !item.commit_hash).length,
+      tickets: new Set(groupItems.map(extractIssueId).filter(Boolean)).size,
+      first: times.length > 0 ? new Date(Math.min(...times)) : null,
+      last: times.length > 0 ? new Date(Math.max(...times)) : null
+    }
+  })
+
+  // Newest first; the group without a value goes last
+  return groups.sort((a, b) => {
+    if (a.value === null || b.value === null) return a.value === null ? 1 : -1
+    if (key === 'day') return b.value.localeCompare(a.value)
+    return (b.last?.getTime() || 0) - (a.last?.getTime() || 0)
+  })
+}
+
+/**
+ * Text for booking a whole group: one ticket with every distinct description after it,
+ * or one line per distinct item when the group spans several tickets.
+ */
+export function getGroupCopyText(group: ActivityGroup): string {
+  const chronological = [...group.items].sort((a, b) => (getItemDate(a)?.getTime() || 0) - (getItemDate(b)?.getTime() || 0))
+  const tickets = new Set(chronological.map(extractIssueId))
+
+  if (tickets.size === 1) {
+    const [ticket] = tickets
+    if (ticket) {
+      const ticketPattern = new RegExp(`\\[?${ticket.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]?[:\\s-]*`, 'gi')
+      const descriptions = [...new Set(chronological.map(item => getDisplayTitle(item).replace(ticketPattern, '').trim()).filter(Boolean))]
+      return descriptions.length > 0 ? `${ticket} ${descriptions.join('; ')}` : ticket
+    }
+  }
+
+  return [...new Set(chronological.map(getCopyableText).filter(Boolean))].join('\n')
+}
@@ -0,0 +1,46 @@
+// Activity Heatmap - when in the week work happens, by local weekday and hour
+// Commits count at their commit time, PRs at their last update. A cell links to the Details
+// page searching for the same weekday and hour (see the weekday: and hour: search fields).
+
+import { getActivityTimestamp } from './activityCache'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { ActivityHeatmap, HeatmapMode } from '../types/heatmap'
+
+export const HEATMAP_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// Hours counted as the working day: 9:00 up to 18:00
+export const WORKING_HOURS = { start: 9, end: 18 }
+
+function matchesMode(item: ProcessedCommit, mode: HeatmapMode): boolean {
+  return mode === 'commits' ? !!item.commit_hash : !item.commit_hash
+}
+
+export function buildActivityHeatmap(items: ProcessedCommit[], mode: HeatmapMode): ActivityHeatmap {
+  const counts = HEATMAP_WEEKDAYS.map(() => new Array<number>(24).fill(0))
+  let total = 0
+  let afterHours = 0
+
+  items.forEach(item => {
+    if (!matchesMode(item, mode)) return
+    const time = getActivityTimestamp(item)
+    if (!time) return
+
+    const date = new Date(time)
+    const weekday = (date.getDay() + 6) % 7 // Monday first
+    const hour = date.getHours()
+    counts[weekday][hour]++
+    total++
+    if (weekday >= 5 || hour < WORKING_HOURS.start || hour >= WORKING_HOURS.end) afterHours++
+  })
+
+  return { counts, max: Math.max(0, ...counts.flat()), total, afterHours }
+}
+
+/**
+ * Table search for the items in one cell, e.g. "type:commit weekday:mon hour:9".
+ */
+export function getHeatmapSearch(mode: HeatmapMode, weekday: number, hour: number): string {
+  const type = mode === 'commits' ? 'commit' : 'pr'
+  return `type:${type} weekday:${HEATMAP_WEEKDAYS[weekday].toLowerCase()} hour:${hour}`
+}
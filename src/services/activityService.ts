@@ -0,0 +1,321 @@
+// Activity Service - combines every enabled provider connection into one activity list
+// Connections are configured per workspace in Settings (see stores/providerStore.ts).
+// Results are kept in the persistent activity cache; only newer (or older, when the range
+// widens) activity is requested from providers.
+
+import { BitbucketProvider } from './providers/bitbucketProvider'
+import { GitHubProvider } from './providers/githubProvider'
+import { GitLabProvider } from './providers/gitlabProvider'
+import { activityCache, getActivityTimestamp } from './activityCache'
+import { getTeammates } from './teamMembers'
+import { authorConfig, userProfile } from '../stores/profileStore'
+import { useProviderConnections } from '../stores/providerStore'
+import { errorService, ErrorSeverity } from './errorService'
+import { splitRepo } from './activityUtils'
+
+import type { BitbucketRepository, ProcessedCommit } from '../types/bitbucket'
+import type { ActivityFetchParams, ActivityProvider, ActivitySyncState, ProviderConnection, ProviderType } from '../types/providers'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Re-request a little before the newest stored item to catch late-arriving activity
+const SYNC_OVERLAP_MS = 60 * 60 * 1000
+// Repositories added to the selection are backfilled one by one; beyond this a full fetch is quicker
+const MAX_REPO_BACKFILLS = 5
+
+class ActivityService {
+  private providerConnections = useProviderConnections()
+  private providers: Map<string, { signature: string; provider: ActivityProvider }> = new Map()
+
+  private createProvider(connection: ProviderConnection): ActivityProvider {
+    switch (connection.type) {
+      case 'github':
+        return new GitHubProvider(connection)
+      case 'gitlab':
+        return new GitLabProvider(connection)
+      case 'bitbucket':
+      default:
+        return new BitbucketProvider(connection)
+    }
+  }
+
+  // Providers are rebuilt when their connection settings change, so caches never outlive a config
+  getProviders(): ActivityProvider[] {
+    const enabled = this.providerConnections.enabledConnections()
+
+    for (const id of this.providers.keys()) {
+      if (!enabled.some(connection => connection.id === id)) {
+        this.providers.delete(id)
+      }
+    }
+
+    return enabled.map((connection: ProviderConnection) => {
+      const signature = JSON.stringify(connection)
+      const existing = this.providers.get(connection.id)
+      if (existing && existing.signature === signature) {
+        return existing.provider
+      }
+
+      const provider = this.createProvider({ ...connection, repositories: [...connection.repositories] })
+      this.providers.set(connection.id, { signature, provider })
+      return provider
+    })
+  }
+
+  /**
+   * Aborting `signal` cancels every provider request; the returned promise then rejects with an AbortError.
+   */
+  async fetchAllData(
+    maxDays: number = 12,
+    selectedRepos: string[] | null = null,
+    forceRefresh: boolean = false,
+    signal?: AbortSignal
+  ): Promise<ProcessedCommit[]> {
+    const providers = this.getProviders()
+    // Team mode: every provider also fetches the teammates' activity
+    const teammates = getTeammates().map(member => ({ ...member, emails: [...member.emails], accounts: { ...member.accounts } }))
+
+    const results = await Promise.allSettled(
+      providers.map(provider => this.fetchProviderActivity(provider, { maxDays, selectedRepos, forceRefresh, teammates, signal }))
+    )
+
+    // A superseded fetch is not a provider failure
+    signal?.throwIfAborted()
+
+    const data: ProcessedCommit[] = []
+    const failures: { provider: ActivityProvider; reason: unknown }[] = []
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        data.push(...result.value)
+      } else {
+        failures.push({ provider: providers[index], reason: result.reason })
+        console.error(`Failed to fetch activity from ${providers[index].label}:`, result.reason)
+      }
+    })
+
+    // Only fail outright when no provider delivered anything
+    if (failures.length > 0 && failures.length === providers.length) {
+      throw failures[0].reason
+    }
+
+    failures.forEach(({ provider, reason }) => {
+      errorService.report(reason, ErrorSeverity.WARNING, `Could not load activity from ${provider.label}`)
+    })
+
+    console.log(`✅ Combined ${data.length} activity items from ${providers.length - failures.length} providers`)
+
+    return data.sort((a, b) => {
+      const dateA = new Date(a.commit_date || a.pr_updated_on || '').getTime()
+      const dateB = new Date(b.commit_date || b.pr_updated_on || '').getTime()
+      return dateB - dateA
+    })
+  }
+
+  /**
+   * Serves a provider's activity from the persistent cache, fetching only what is missing:
+   * everything on a first, forced or stale load, older days when the range widened, and a delta
+   * since the newest stored item otherwise.
+   */
+  private async fetchProviderActivity(provider: ActivityProvider, params: ActivityFetchParams): Promise<ProcessedCommit[]> {
+    const { maxDays, selectedRepos, forceRefresh, teammates, signal } = params
+
+    if (!(await activityCache.isAvailable())) {
+      return provider.fetchActivity(params)
+    }
+
+    const now = Date.now()
+    const windowStart = now - maxDays * DAY_MS
+    // Stored items were fetched for a set of authors and workspaces too; a profile or roster change refetches them
+    const { authorEmail, apiUsername } = authorConfig.value
+    const authors = JSON.stringify([
+      { emails: [authorEmail], accounts: { bitbucket: apiUsername } },
+      ...(teammates || []).map(member => ({ emails: member.emails, accounts: member.accounts }))
+    ])
+    const signature = `${this.providers.get(provider.id)?.signature || ''}|${authors}|${userProfile.workspaces.join(',')}`
+    let sync = await activityCache.getSyncState(provider.id)
+
+    if (sync && sync.signature !== signature) {
+      // Connection settings, the profile or the roster changed, so stored items may belong to other accounts or repositories
+      await activityCache.clear(provider.id)
+      sync = null
+    }
+
+    if (sync && provider.type === 'bitbucket' && selectedRepos) {
+      sync = await this.applyRepositorySelection(provider, sync, params)
+    }
+
+    if (forceRefresh || !sync || sync.stale) {
+      const items = await provider.fetchActivity(params)
+      await activityCache.replaceItems(provider.id, windowStart, items)
+      await activityCache.setSyncState({
+        providerId: provider.id,
+        signature,
+        coveredFrom: sync ? Math.min(sync.coveredFrom, windowStart) : windowStart,
+        latestItem: this.getLatestTimestamp(items, sync?.latestItem ?? null),
+        syncedAt: now,
+        repos: selectedRepos ? [...selectedRepos].sort() : undefined
+      })
+      console.log(`🗄️ Stored ${items.length} items from ${provider.label} (full fetch)`)
+      return activityCache.getItems(provider.id, windowStart)
+    }
+
+    const next: ActivitySyncState = { ...sync }
+
+    if (windowStart < sync.coveredFrom) {
+      const items = await provider.fetchActivity({
+        maxDays,
+        selectedRepos,
+        forceRefresh: false,
+        until: new Date(sync.coveredFrom).toISOString(),
+        teammates,
+        signal
+      })
+      await activityCache.putItems(provider.id, items)
+      next.coveredFrom = windowStart
+      next.latestItem = this.getLatestTimestamp(items, next.latestItem)
+      console.log(`🗄️ Backfilled ${items.length} older items from ${provider.label}`)
+    }
+
+    const since = Math.max((next.latestItem ?? sync.syncedAt) - SYNC_OVERLAP_MS, windowStart)
+    const items = await provider.fetchActivity({
+      maxDays: Math.max(1, Math.ceil((now - since) / DAY_MS)),
+      selectedRepos,
+      forceRefresh: false,
+      since: new Date(since).toISOString(),
+      teammates,
+      signal
+    })
+    await activityCache.putItems(provider.id, items)
+    next.latestItem = this.getLatestTimestamp(items, next.latestItem)
+    next.syncedAt = now
+    console.log(`🗄️ Merged ${items.length} new items from ${provider.label}`)
+
+    await activityCache.setSyncState(next)
+    return activityCache.getItems(provider.id, windowStart)
+  }
+
+  /**
+   * Makes the next load of every provider of `type` refetch its whole window instead of a delta.
+   * A finished backend refresh job can have found commits older than the newest stored item.
+   */
+  async markStale(type: ProviderType): Promise<void> {
+    if (!(await activityCache.isAvailable())) return
+
+    await Promise.all(this.getProviders().filter(provider => provider.type === type).map(async provider => {
+      const sync = await activityCache.getSyncState(provider.id)
+      if (sync) await activityCache.setSyncState({ ...sync, stale: true })
+    }))
+  }
+
+  /**
+   * Bitbucket serves the repository selection stored on the backend. When it changed since the
+   * last sync, the repositories that left it are dropped from the stored items and the ones that
+   * joined are backfilled over the stored period. Returns null when a full fetch is needed instead.
+   */
+  private async applyRepositorySelection(
+    provider: ActivityProvider,
+    sync: ActivitySyncState,
+    params: ActivityFetchParams
+  ): Promise<ActivitySyncState | null> {
+    const selected = [...(params.selectedRepos || [])].sort()
+    const previous = sync.repos
+    if (!previous) return { ...sync, repos: selected }
+
+    const removed = previous.filter(repo => !selected.includes(repo))
+    const added = selected.filter(repo => !previous.includes(repo))
+    if (added.length > MAX_REPO_BACKFILLS) return null
+
+    await activityCache.removeRepositories(provider.id, removed)
+
+    const since = new Date(sync.coveredFrom).toISOString()
+    const results = await Promise.all(added.map(repo => provider.fetchActivity({
+      maxDays: Math.max(1, Math.ceil((Date.now() - sync.coveredFrom) / DAY_MS)),
+      selectedRepos: params.selectedRepos,
+      forceRefresh: false,
+      since,
+      repository: repo,
+      teammates: params.teammates,
+      signal: params.signal
+    })))
+    const items = results.flat()
+    await activityCache.putItems(provider.id, items)
+    if (removed.length > 0 || added.length > 0) {
+      console.log(`🗄️ Dropped ${removed.length} and backfilled ${added.length} repositories from ${provider.label}`)
+    }
+
+    const next = { ...sync, repos: selected, latestItem: this.getLatestTimestamp(items, sync.latestItem) }
+    await activityCache.setSyncState(next)
+    return next
+  }
+
+  /**
+   * Refetches one repository's activity for the last `maxDays`, bypassing the stored items,
+   * and stores the result. Only the connections serving the repository's workspace are asked.
+   * The fetch is not forced, so it starts no backend refresh job; aborting `signal` cancels it.
+   */
+  async refreshRepository(repo: string, maxDays: number, signal?: AbortSignal): Promise<ProcessedCommit[]> {
+    const { workspace } = splitRepo(repo)
+    const connections = this.providerConnections.enabledConnections()
+    const providers = this.getProviders().filter(provider => {
+      const connection = connections.find(candidate => candidate.id === provider.id)
+      return !connection?.workspace || connection.workspace === workspace
+    })
+    const teammates = getTeammates().map(member => ({ ...member, emails: [...member.emails], accounts: { ...member.accounts } }))
+    const canStore = await activityCache.isAvailable()
+
+    const results = await Promise.all(providers.map(async provider => {
+      const items = await provider.fetchActivity({ maxDays, selectedRepos: [repo], forceRefresh: false, repository: repo, teammates, signal })
+      signal?.throwIfAborted()
+      if (canStore) await activityCache.putItems(provider.id, items)
+      return items
+    }))
+
+    const data = results.flat()
+    console.log(`✅ Refreshed ${data.length} activity items for ${repo}`)
+    return data
+  }
+
+  /**
+   * Stored activity dated between `from` and `until`, without asking any provider, and how far
+   * back the longest stored history reaches (null when nothing is stored yet).
+   */
+  async getStoredActivity(from: number, until: number): Promise<{ items: ProcessedCommit[]; coveredFrom: number | null }> {
+    if (!(await activityCache.isAvailable())) return { items: [], coveredFrom: null }
+
+    const results = await Promise.all(this.getProviders().map(async provider => ({
+      items: await activityCache.getItems(provider.id, from, until),
+      sync: await activityCache.getSyncState(provider.id)
+    })))
+
+    const covered = results.map(({ sync }) => sync?.coveredFrom).filter((time): time is number => time !== undefined)
+    return {
+      items: results.flatMap(({ items }) => items),
+      coveredFrom: covered.length > 0 ? Math.min(...covered) : null
+    }
+  }
+
+  private getLatestTimestamp(items: ProcessedCommit[], current: number | null): number | null {
+    return items.reduce<number | null>((latest, item) => {
+      const time = getActivityTimestamp(item)
+      return latest === null || time > latest ? time : latest
+    }, current)
+  }
+
+  async fetchAllRepositories(): Promise<BitbucketRepository[]> {
+    const results = await Promise.allSettled(this.getProviders().map(provider => provider.fetchRepositories()))
+
+    return results
+      .flatMap(result => result.status === 'fulfilled' ? result.value : [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async clearCache(): Promise<void> {
+    this.getProviders().forEach(provider => provider.clearCache())
+    await activityCache.clear()
+  }
+}
+
+// Export singleton instance with proper typing
+export const activityService = new ActivityService()
+
+export default activityService
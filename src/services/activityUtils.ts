@@ -1,25 +1,13 @@
+import { resolveTicket } from './ticketPatterns'
+
 import type { ProcessedCommit } from '../types/bitbucket'
 
 /**
  * Extracts the issue ID (e.g., ASUITE-1234) from an activity item.
- * Prioritizes the backend-provided ticket field, then branch name, then message/title.
+ * Uses the ticket patterns configured in Settings; see resolveTicket for the precedence rules.
  */
 export function extractIssueId(item: ProcessedCommit): string | null {
-  // Use the ticket field from backend if available
-  if (item.ticket) {
-    return item.ticket
-  }
-  
-  // Try to extract from branch if available (newly added by backend)
-  if (item.branch) {
-    const match = item.branch.match(/([A-Z]{2,10}-\d+)/)
-    if (match) return match[1]
-  }
-  
-  // Extract from message or title
-  const title = item.commit_message || item.pr || ''
-  const match = title.match(/([A-Z]{2,10}-\d+|ASM-\d+)/)
-  return match ? match[1] : null
+  return resolveTicket(item)?.ticket || null
 }
 
 /**
@@ -53,6 +41,45 @@ export function getCopyableText(item: ProcessedCommit): string {
   return `${ticket} ${description}`
 }
 
+/**
+ * Merges extra activity into a base list, dropping commits whose hash is already present.
+ * Items from the base list win, so backend data is preferred over imported data.
+ */
+export function mergeActivity(base: ProcessedCommit[], extra: ProcessedCommit[]): ProcessedCommit[] {
+  const hashes = new Set(base.filter(item => item.commit_hash).map(item => item.commit_hash))
+  const additions = extra.filter(item => {
+    if (!item.commit_hash) return true
+    if (hashes.has(item.commit_hash)) return false
+    hashes.add(item.commit_hash)
+    return true
+  })
+  return [...base, ...additions]
+}
+
+/**
+ * Splits "workspace/repo" into its parts. Repositories without a workspace (e.g. from a
+ * git log import) have a null workspace.
+ */
+export function splitRepo(repo: string | null | undefined): { workspace: string | null; name: string } {
+  if (!repo) return { workspace: null, name: '' }
+  const separator = repo.indexOf('/')
+  return separator === -1
+    ? { workspace: null, name: repo }
+    : { workspace: repo.slice(0, separator), name: repo.slice(separator + 1) }
+}
+
+/**
+ * Keeps the items in the selected workspaces; an empty selection keeps everything.
+ */
+export function filterByWorkspaces(items: ProcessedCommit[], workspaces: string[]): ProcessedCommit[] {
+  if (!workspaces || workspaces.length === 0) return items
+  const selected = new Set(workspaces)
+  return items.filter(item => {
+    const { workspace } = splitRepo(item.repo)
+    return workspace !== null && selected.has(workspace)
+  })
+}
+
 /**
  * Formats a relative time string (e.g., "2h ago").
  */
@@ -28,8 +28,12 @@ import type {
 
 import { refreshStatusStore } from '../stores/refreshStore'
 
-import { ApiError, AuthError, NetworkError } from '../types/errors'
+import { ApiError, AppError, AuthError, NetworkError } from '../types/errors'
 import { errorService, ErrorSeverity } from './errorService'
+import { httpClient, isAbortError, type HttpRequestOptions } from './httpClient'
+import { getPrimaryTicket } from './ticketPatterns'
+import { authorConfig, userProfile } from '../stores/profileStore'
+import type { AuthorConfig } from '../types/profile'
 
 class BitbucketService {
   private config: BitbucketServiceConfig
@@ -40,109 +44,58 @@ class BitbucketService {
     // Use Laravel backend API as primary data source
     this.apiBase = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'
     
+    // Author identity and workspaces are read from the user profile at request time (see getAuthorConfig)
     this.config = {
       apiToken: '', // Tokens now stored server-side in Laravel backend
-      apiUsername: import.meta.env.VITE_BITBUCKET_AUTHOR_USERNAME || 'RensHoogendam', // For API filtering
-      prAuthorDisplayName: import.meta.env.VITE_BITBUCKET_PR_AUTHOR_DISPLAY_NAME || 'Rens Hoogendam',
-      commitAuthorRaw: import.meta.env.VITE_BITBUCKET_COMMIT_AUTHOR_RAW || 'RensHoogendam <r.hoogendam@atabix.nl>',
-      authorEmail: import.meta.env.VITE_BITBUCKET_AUTHOR_EMAIL,
       repos: [], // Will be populated dynamically
       baseUrl: `${this.apiBase}/bitbucket` // Laravel backend endpoints
     }
     
-    const workspaces = import.meta.env.VITE_BITBUCKET_WORKSPACES?.split(',') || ['atabix']
-    this.config.workspaces = workspaces.map((ws: string) => ws.trim())
-    
     // Initialize cache
     this.cache = {
-      data: new Map(),
       repositories: null,
-      repositoriesTimestamp: null
+      repositoriesTimestamp: null,
+      repositoriesWorkspaces: null
     }
   }
 
-  private async deleteCall<T = any>(url: string): Promise<T | undefined> {
-    console.log('🗑️ Laravel API deleteCall():', url)
+  // Laravel Backend API request wrapper around the shared HTTP client
+  // `silent` skips the error toasts for callers that handle failures themselves (e.g. job status polling)
+  private async apiRequest<T = any>(url: string, options: HttpRequestOptions = {}, silent: boolean = false): Promise<T | undefined> {
+    console.log(`🌐 Laravel API ${options.method || 'GET'}:`, url)
     
     try {
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
-      })
-      
-      if (response.ok) {
-        try {
-          return await response.json()
-        } catch (error) {
-          throw new ApiError(`Failed to parse JSON response from ${url}`, response.status, url)
-        }
-      }
-      
-      this.handleHttpError(response, url)
+      return await httpClient.request<T>(url, options)
     } catch (error) {
-      if (error instanceof ApiError || error instanceof AuthError) throw error
-      const networkErr = new NetworkError(error instanceof Error ? error.message : 'Delete request failed')
-      this.handleNetworkError(networkErr, url)
-      throw networkErr
-    }
-    
-    return undefined
-  }
-
-  // Laravel Backend API fetch wrapper
-  private async getFetch<T = any>(url: string): Promise<T | undefined> {
-    console.log('🌐 Laravel API fetch():', url)
-    
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
-      })
-      
-      if (response.ok) {
-        try {
-          return await response.json()
-        } catch (error) {
-          throw new ApiError(`Failed to parse JSON response from ${url}`, response.status, url)
-        }
+      if (error instanceof AuthError) {
+        throw new AuthError('Authentication failed. Please check backend configuration.')
       }
-      
-      this.handleHttpError(response, url)
-    } catch (error) {
-      if (error instanceof ApiError || error instanceof AuthError) throw error
-      const networkErr = new NetworkError(error instanceof Error ? error.message : 'Fetch request failed')
-      this.handleNetworkError(networkErr, url)
-      throw networkErr
+      if (!silent) this.reportError(error)
+      throw error
     }
-    
-    return undefined
   }
 
-  private handleHttpError(response: Response, url: string): void {
-    if (response.status === 401) {
-      throw new AuthError('Authentication failed. Please check backend configuration.')
-    }
+  private async getFetch<T = any>(url: string, options: { silent?: boolean; signal?: AbortSignal } = {}): Promise<T | undefined> {
+    return this.apiRequest<T>(url, { method: 'GET', signal: options.signal }, options.silent)
+  }
 
-    const errorMap: Record<number, string> = {
-      403: 'Access forbidden. Insufficient permissions.',
-      404: 'Resource not found.',
-      500: 'Internal server error in backend.'
-    }
+  private async deleteCall<T = any>(url: string): Promise<T | undefined> {
+    return this.apiRequest<T>(url, { method: 'DELETE' })
+  }
 
-    const message = errorMap[response.status] || `HTTP Error ${response.status}: ${response.statusText}`
-    const apiError = new ApiError(message, response.status, url)
-    errorService.report(apiError, ErrorSeverity.ERROR)
-    throw apiError
+  // Repository settings callers turn failures into a result message instead of a toast
+  private async patchCall<T = any>(url: string, body?: unknown): Promise<T | undefined> {
+    return this.apiRequest<T>(url, { method: 'PATCH', body }, true)
   }
 
-  private handleNetworkError(error: NetworkError, url: string): void {
-    errorService.report(error, ErrorSeverity.CRITICAL, 'Cannot connect to backend server. Is it running?')
+  private reportError(error: unknown): void {
+    if (isAbortError(error)) return
+
+    if (error instanceof NetworkError) {
+      errorService.report(error, ErrorSeverity.CRITICAL, 'Cannot connect to backend server. Is it running?')
+    } else {
+      errorService.report(error, ErrorSeverity.ERROR)
+    }
   }
 
   // Date utilities
@@ -160,117 +113,37 @@ class BitbucketService {
   }
 
   // Cache utility methods
-  private getCacheKey(maxDays: number, selectedRepos: string[] | null): string {
-    const repos = selectedRepos || this.config.repos
-    return `${repos.sort().join(',')}:${maxDays}:${this.config.prAuthorDisplayName}`
-  }
-
   private isCacheValid(timestamp: number, maxAgeMinutes: number = 60): boolean {
     const now = Date.now()
     const maxAge = maxAgeMinutes * 60 * 1000 // Convert to milliseconds
     return now - timestamp < maxAge
   }
 
-  private getCachedData(maxDays: number, selectedRepos: string[] | null): ProcessedCommit[] | null {
-    const key = this.getCacheKey(maxDays, selectedRepos)
-    const cached = this.cache.data.get(key)
-    
-    if (!cached) return null
-    
-    // Different cache duration based on data recency
-    const maxAgeMinutes = maxDays <= 1 ? 30 : maxDays <= 7 ? 120 : 360 // 30min, 2h, or 6h
-    
-    if (this.isCacheValid(cached.timestamp, maxAgeMinutes)) {
-      console.log(`Cache hit for ${key} (${maxAgeMinutes}min TTL)`)
-      return cached.data
-    }
-    
-    // Cache expired, remove it
-    this.cache.data.delete(key)
-    return null
-  }
-
-  private setCachedData(maxDays: number, selectedRepos: string[] | null, data: ProcessedCommit[]): void {
-    const key = this.getCacheKey(maxDays, selectedRepos)
-    this.cache.data.set(key, {
-      data,
-      timestamp: Date.now()
-    })
-    console.log(`Cached data for ${key}`)
-  }
-
-  clearCache(pattern: string | null = null): void {
-    if (pattern) {
-      // Clear specific cache entries matching pattern
-      for (const [key] of this.cache.data) {
-        if (key.includes(pattern)) {
-          this.cache.data.delete(key)
-        }
-      }
-    } else {
-      // Clear all cache
-      this.cache.data.clear()
-      this.cache.repositories = null
-      this.cache.repositoriesTimestamp = null
-    }
-    console.log('Cache cleared' + (pattern ? ` (pattern: ${pattern})` : ''))
-  }
-
-  // Extract ticket/issue references from text
-  private extractTicketReferences(text: string): string[] {
-    if (!text) return []
-    
-    // Common patterns for tickets/issues
-    const patterns = [
-      /\b([A-Z]{2,10}-\d+)\b/g,           // JIRA style: ABC-123
-      /\b(#\d+)\b/g,                     // GitHub/GitLab style: #123
-      /\b([A-Z]+\d+)\b/g,                // Simple: ABC123
-      /\bticket[\s#]*([A-Z0-9-]+)\b/gi,  // "ticket ABC-123"
-      /\bissue[\s#]*([A-Z0-9-]+)\b/gi,   // "issue #123"
-      /\btask[\s#]*([A-Z0-9-]+)\b/gi,    // "task ABC-123"
-    ]
-    
-    const tickets: string[] = []
-    patterns.forEach(pattern => {
-      const matches = text.matchAll(pattern)
-      for (const match of matches) {
-        const ticket = match[1]
-        if (ticket && !tickets.includes(ticket)) {
-          tickets.push(ticket)
-        }
-      }
-    })
-    
-    return tickets
-  }
-
-  // Get the primary ticket reference (first/most relevant one)
-  private getPrimaryTicket(text: string): string | null {
-    const tickets = this.extractTicketReferences(text)
-    if (tickets.length === 0) return null
-    
-    // Prefer JIRA-style tickets (ABC-123) over others
-    const jiraTicket = tickets.find(ticket => /^[A-Z]{2,10}-\d+$/.test(ticket))
-    if (jiraTicket) return jiraTicket
-    
-    // Return first ticket found
-    return tickets[0]
+  clearCache(): void {
+    this.cache.repositories = null
+    this.cache.repositoriesTimestamp = null
+    this.cache.repositoriesWorkspaces = null
+    console.log('Cache cleared')
   }
 
-  // Fetch all repositories via Laravel backend
+  // Fetch all repositories via Laravel backend, across every workspace in the profile
   async fetchAllRepositories(): Promise<BitbucketRepository[]> {
-    // Check cache first (cache repos for 1 hour)
-    if (this.cache.repositories && this.cache.repositoriesTimestamp && this.isCacheValid(this.cache.repositoriesTimestamp, 60)) {
+    const workspaces = this.getWorkspaces().join(',')
+
+    // Check cache first (cache repos for 1 hour, per set of workspaces)
+    if (this.cache.repositories && this.cache.repositoriesTimestamp && this.cache.repositoriesWorkspaces === workspaces
+      && this.isCacheValid(this.cache.repositoriesTimestamp, 60)) {
       console.log('Using cached repositories')
       return this.cache.repositories
     }
     
-    console.log('🔍 Fetching repositories via Laravel backend...')
+    console.log('🔍 Fetching repositories via Laravel backend...', workspaces || 'all workspaces')
     
     try {
-      // Use Laravel backend endpoint for repositories
-      const workspaces = 'atabix'
-      const url = `${this.apiBase}/repositories?workspaces=${workspaces}`
+      // Use Laravel backend endpoint for repositories; without workspaces it returns all of them
+      const url = workspaces
+        ? `${this.apiBase}/repositories?workspaces=${encodeURIComponent(workspaces)}`
+        : `${this.apiBase}/repositories`
       
       const response = await this.getFetch<{ data: BitbucketRepository[] }>(url)
       
@@ -287,6 +160,7 @@ class BitbucketService {
       // Cache the results
       this.cache.repositories = result
       this.cache.repositoriesTimestamp = Date.now()
+      this.cache.repositoriesWorkspaces = workspaces
       console.log(`✅ Cached ${result.length} repositories from Laravel backend`)
       
       return result
@@ -333,24 +207,12 @@ class BitbucketService {
     try {
       const url = `${this.apiBase}/repositories/user/${repositoryId}/enable`
       
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
-      })
-      
-      if (response.ok) {
-        const result = await response.json()
-        console.log('✅ Repository enabled successfully:', result)
-        // Clear cache to force refresh
-        this.cache.repositories = null
-        this.cache.repositoriesTimestamp = null
-        return result
-      } else {
-        throw new Error(`Failed to enable repository: ${response.statusText}`)
-      }
+      const result = await this.patchCall<RepositoryStatusResponse>(url)
+      console.log('✅ Repository enabled successfully:', result)
+      // Clear cache to force refresh
+      this.cache.repositories = null
+      this.cache.repositoriesTimestamp = null
+      return result || { success: true, message: 'Repository enabled' }
       
     } catch (error) {
       console.error('Error enabling repository:', error)
@@ -369,24 +231,12 @@ class BitbucketService {
     try {
       const url = `${this.apiBase}/repositories/user/${repositoryId}/disable`
       
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
-      })
-      
-      if (response.ok) {
-        const result = await response.json()
-        console.log('❌ Repository disabled successfully:', result)
-        // Clear cache to force refresh
-        this.cache.repositories = null
-        this.cache.repositoriesTimestamp = null
-        return result
-      } else {
-        throw new Error(`Failed to disable repository: ${response.statusText}`)
-      }
+      const result = await this.patchCall<RepositoryStatusResponse>(url)
+      console.log('❌ Repository disabled successfully:', result)
+      // Clear cache to force refresh
+      this.cache.repositories = null
+      this.cache.repositoriesTimestamp = null
+      return result || { success: true, message: 'Repository disabled' }
       
     } catch (error) {
       console.error('Error disabling repository:', error)
@@ -405,24 +255,15 @@ class BitbucketService {
     try {
       const url = `${this.apiBase}/repositories/user/${encodeURIComponent(repositoryName)}/toggle`
       
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
-      })
-      
-      if (response.ok) {
-        const result = await response.json()
-        console.log('🔄 Repository status toggled successfully:', result)
-        // Clear cache to force refresh
-        this.cache.repositories = null
-        this.cache.repositoriesTimestamp = null
-        return result
-      } else {
-        throw new Error(`Failed to toggle repository status: ${response.statusText}`)
+      const result = await this.patchCall<RepositoryToggleResponse>(url)
+      if (!result) {
+        throw new Error('Empty response while toggling repository status')
       }
+      console.log('🔄 Repository status toggled successfully:', result)
+      // Clear cache to force refresh
+      this.cache.repositories = null
+      this.cache.repositoriesTimestamp = null
+      return result
       
     } catch (error) {
       console.error('Error toggling repository status:', error)
@@ -442,30 +283,16 @@ class BitbucketService {
     try {
       const url = `${this.apiBase}/repositories/user`
       
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          enabled_repositories: repositoryNames
-        })
+      const result = await this.patchCall(url, {
+        enabled_repositories: repositoryNames
       })
-      
-      if (response.ok) {
-        const result = await response.json()
-        console.log('💾 Repository selections saved successfully:', result)
-        // Clear cache to force refresh
-        this.cache.repositories = null
-        this.cache.repositoriesTimestamp = null
-        return {
-          success: true,
-          message: 'Repository selections saved successfully'
-        }
-      } else {
-        const errorText = await response.text()
-        throw new Error(`Failed to save repository selections: ${response.statusText} - ${errorText}`)
+      console.log('💾 Repository selections saved successfully:', result)
+      // Clear cache to force refresh
+      this.cache.repositories = null
+      this.cache.repositoriesTimestamp = null
+      return {
+        success: true,
+        message: 'Repository selections saved successfully'
       }
       
     } catch (error) {
@@ -640,7 +467,8 @@ class BitbucketService {
     
     // Use username parameter for server-side filtering (more efficient than client-side filtering)
     // This filters commits by the username associated with the author
-    const usernameParam = this.config.apiUsername ? `&username=${this.config.apiUsername}` : ''
+    const { apiUsername } = this.getAuthorConfig()
+    const usernameParam = apiUsername ? `&username=${apiUsername}` : ''
     
     const queryParam = dateFilter ? `q=${dateFilter}` : 'q='
     
@@ -648,12 +476,12 @@ class BitbucketService {
     const url = `${this.config.baseUrl}/${repo}/commits?${queryParam}${sortParam}${usernameParam}&fields=next,values.hash,values.date,values.message,values.author.raw,values.author.user.username`
     
     console.log('🔍 Fetching repository commits with server-side author filtering:', url)
-    console.log(`📋 Filtering by username: ${this.config.apiUsername}`)
+    console.log(`📋 Filtering by username: ${apiUsername}`)
     
     const result = await this.getFetch(url)
     
     // If no results and we have a username, try alternative filtering method
-    if ((!result || !result.values?.length) && this.config.apiUsername) {
+    if ((!result || !result.values?.length) && apiUsername) {
       console.log('🔄 No results with username parameter, trying alternative query method...')
       return await this.getFetchRepositoryCommitsAlternative(repo, since, sort)
     }
@@ -667,7 +495,8 @@ class BitbucketService {
     const sortParam = sort.length ? `&sort=${sort}` : ''
     
     // Method 2: Use advanced query syntax with author.user.username filter
-    const authorFilter = this.config.apiUsername ? `author.user.username="${this.config.apiUsername}"` : ''
+    const { apiUsername } = this.getAuthorConfig()
+    const authorFilter = apiUsername ? `author.user.username="${apiUsername}"` : ''
     
     const fullQuery = [dateFilter, authorFilter].filter(Boolean).join(' AND ')
     const queryParam = fullQuery ? `q=${encodeURIComponent(fullQuery)}` : 'q='
@@ -715,7 +544,7 @@ class BitbucketService {
     
     // 1. Get commits from pull requests (existing logic)
     const relevantPRs = pullRequests.filter((pr: ProcessedPullRequest) => 
-      pr.pr_author_display_name === this.config.prAuthorDisplayName ||
+      pr.pr_author_display_name === this.getAuthorConfig().prAuthorDisplayName ||
       (new Date(pr.pr_updated_on) > new Date(Date.now() - (3 * 24 * 60 * 60 * 1000))) // Last 3 days
     ).slice(0, 20) // Limit to max 20 PRs per batch to avoid excessive API calls
 
@@ -732,6 +561,7 @@ class BitbucketService {
 
     // 2. ALSO fetch commits directly from each repository to catch any missed commits
     console.log('🔍 ENHANCEMENT: Also fetching commits directly from repositories to catch commits from deleted branches...')
+    const { apiUsername, commitAuthorRaw } = this.getAuthorConfig()
     
     for (const repo of this.config.repos) {
       const repositoryCommits = await this.getAllRepositoryCommits(repo, maxDays)
@@ -739,11 +569,11 @@ class BitbucketService {
       
       // Server-side filtering should have already filtered by author, but double-check for safety
       const ourCommits = repositoryCommitsCompact.filter((commit: ProcessedCommit) => 
-        commit.commit_author_raw === this.config.commitAuthorRaw ||
-        commit.commit_author_raw?.includes(this.config.apiUsername) // Fallback check
+        commit.commit_author_raw === commitAuthorRaw ||
+        commit.commit_author_raw?.includes(apiUsername) // Fallback check
       )
       
-      console.log(`📊 Server-side filtered: ${repositoryCommitsCompact.length} commits in ${repo} (should all be by ${this.config.apiUsername})`)
+      console.log(`📊 Server-side filtered: ${repositoryCommitsCompact.length} commits in ${repo} (should all be by ${apiUsername})`)
       console.log(`📊 Client-side verified: ${ourCommits.length} commits match author criteria`)
       
       allCommits = [...allCommits, ...ourCommits]
@@ -766,7 +596,7 @@ class BitbucketService {
       }, [])
       .map((item): ProcessedCommit => {
         const commitMessage = item.message || ''
-        const ticketRef = this.getPrimaryTicket(commitMessage)
+        const ticketRef = getPrimaryTicket(commitMessage, repo)
         
         return {
           repo,
@@ -798,7 +628,7 @@ class BitbucketService {
       }, [])
       .map((item): ProcessedPullRequest => {
         const prTitle = item.title || ''
-        const ticketRef = this.getPrimaryTicket(prTitle)
+        const ticketRef = getPrimaryTicket(prTitle, repo)
         
         return {
           repo,
@@ -825,7 +655,7 @@ class BitbucketService {
       }, [])
       .map((item): ProcessedCommit => {
         const commitMessage = item.message || ''
-        const commitTicket = this.getPrimaryTicket(commitMessage)
+        const commitTicket = getPrimaryTicket(commitMessage, pullRequest.repo)
         
         // Use ticket from commit message if found, otherwise inherit from PR
         const finalTicket = commitTicket || pullRequest.ticket
@@ -845,38 +675,49 @@ class BitbucketService {
   }
 
   // Main method to fetch all data via Laravel backend
-  async fetchAllData(maxDays: number = 12, selectedRepos: string[] | null = null, forceRefresh: boolean = false): Promise<ProcessedCommit[]> {
+  // since/until (ISO dates) narrow the window for delta and backfill requests; days stays as the coarse bound.
+  // Aborting `signal` cancels the request when a newer fetch supersedes it.
+  async fetchAllData(
+    maxDays: number = 12,
+    _selectedRepos: string[] | null = null, // Repository selection is stored server-side (see saveUserRepositorySelections)
+    forceRefresh: boolean = false,
+    { since = null, until = null, author = null, repository = null, signal }: { since?: string | null; until?: string | null; author?: string | null; repository?: string | null; signal?: AbortSignal } = {}
+  ): Promise<ProcessedCommit[]> {
     try {
-      // Check cache first (unless force refresh)
-      if (!forceRefresh) {
-        const cachedData = this.getCachedData(maxDays, selectedRepos)
-        if (cachedData) {
-          return cachedData
-        }
-      }
-      
       console.log('🚀 Fetching fresh data via Laravel backend...')
       
       // Use new Laravel backend endpoint for unified activity (commits + pull requests)
+      // `author` requests a teammate's activity instead of the configured author's
+      const { authorEmail, apiUsername } = this.getAuthorConfig()
+      const requestedAuthor = author || authorEmail || apiUsername // Use username/email instead of display name
+      if (!requestedAuthor) {
+        throw new AppError('Set your commit email or username under Settings → Profile to fetch your activity', ErrorSeverity.WARNING, 'PROFILE_INCOMPLETE')
+      }
       const params = new URLSearchParams({
         days: maxDays.toString(),
-        author: this.config.authorEmail || this.config.apiUsername, // Use username/email instead of display name
+        author: requestedAuthor,
         force_refresh: forceRefresh.toString()
       })
+      if (since) params.set('since', since)
+      if (until) params.set('until', until)
+      const workspaces = this.getWorkspaces()
+      if (workspaces.length > 0) params.set('workspaces', workspaces.join(','))
+      // A single repository, as refreshed from its repository page; encoded like every other value
+      if (repository) params.set('repositories', repository)
       
       // Build URL with repositories parameter manually to avoid double encoding
       let url = `${this.apiBase}/bitbucket/activity?${params.toString()}`
       
       // Add repository filtering if specified (avoid URLSearchParams encoding)
-      // if (selectedRepos && selectedRepos.length > 0) {
-      //   const reposParam = selectedRepos.join(',')
+      // if (_selectedRepos && _selectedRepos.length > 0) {
+      //   const reposParam = _selectedRepos.join(',')
       //   url += `&repositories=${reposParam}`
       // }
       
-      
       const response = await this.getFetch<ResponseWithRefreshStatus<Array<{
         type: 'commit' | 'pull_request'
         repository: string
+        workspace?: string
         hash?: string
         date: string
         message?: string
@@ -891,14 +732,15 @@ class BitbucketService {
         pr_created_on?: string
         pr_updated_on?: string
         pr_state?: 'MERGED' | 'OPEN' | 'DECLINED' | 'SUPERSEDED' // New: PR states
-      }>>>(url)
+      }>>>(url, { signal })
       
       if (!response || !response.data) {
         throw new Error('Failed to fetch data from Laravel backend')
       }
 
-      // Handle background refresh job status
-      if (response.refresh_status) {
+      // Handle background refresh job status. Only the configured author's request forces a
+      // refresh (see BitbucketProvider), so only its job is tracked
+      if (response.refresh_status && !author) {
         refreshStatusStore.setRefreshJob(response.refresh_status)
         console.log('🔄 Refresh job status:', response.refresh_status)
         
@@ -912,13 +754,14 @@ class BitbucketService {
         // Keep all backend fields as-is
         ...item,
         // Add compatibility fields for any components still expecting old format  
-        repo: item.repository,
+        repo: this.qualifyRepository(item.repository, item.workspace),
         pr: item.pr_title || null,
         commit_hash: item.hash || null,
         commit_date: item.date,
         commit_message: item.message || null,
         commit_author_raw: item.author_raw || null,
-        pr_id: (item as any).pull_request_id || null,
+        author_username: item.author_username || requestedAuthor,
+        pr_id: item.pr_id || (item as any).pull_request_id || null,
         pr_author_display_name: item.pr_author || null,
         pr_created_on: item.pr_created_on || null,
         pr_updated_on: item.pr_updated_on || null,
@@ -942,13 +785,12 @@ class BitbucketService {
         })
       }
       
-      // Cache the results
-      this.setCachedData(maxDays, selectedRepos, sortedData)
-      
       return sortedData
       
     } catch (error) {
-      console.error('Error fetching data from Laravel backend:', error)
+      if (!isAbortError(error)) {
+        console.error('Error fetching data from Laravel backend:', error)
+      }
       throw error
     }
   }
@@ -976,6 +818,23 @@ class BitbucketService {
     }
   }
 
+  // The author from the profile in Settings; team mode treats it as the "you" member of the roster
+  getAuthorConfig(): AuthorConfig {
+    return authorConfig.value
+  }
+
+  getWorkspaces(): string[] {
+    return [...userProfile.workspaces]
+  }
+
+  // Activity is labelled "workspace/repo" so equally named repositories of different clients stay apart.
+  // Older backends leave out the workspace; it is then looked up in the cached repository list.
+  private qualifyRepository(repository: string, workspace?: string): string {
+    if (!repository || repository.includes('/')) return repository
+    const resolved = workspace || this.cache.repositories?.find(repo => repo.name === repository)?.workspace
+    return resolved ? `${resolved}/${repository}` : repository
+  }
+
   // Check if Laravel backend is accessible
   hasCredentials(): boolean {
     // With Laravel backend, credentials are managed server-side
@@ -984,15 +843,23 @@ class BitbucketService {
 
   // Background Job System Methods
 
+  /**
+   * Server-Sent Events endpoint that pushes status updates for a refresh job
+   */
+  getRefreshJobStreamUrl(jobId: string): string {
+    return `${this.apiBase}/bitbucket/refresh-status/${jobId}/stream`
+  }
+
   /**
    * Check the status of a background refresh job
    * @param jobId The job ID to check
-   * @returns Job status information
+   * @returns Job status information, or null when the backend does not know the job
+   * @throws On network and server errors, which say nothing about the job itself
    */
   async checkRefreshJobStatus(jobId: string): Promise<RefreshJobStatus | null> {
     try {
       const url = `${this.apiBase}/bitbucket/refresh-status/${jobId}`
-      const response = await this.getFetch<RefreshJobStatus>(url)
+      const response = await this.getFetch<RefreshJobStatus>(url, { silent: true })
       
       if (response) {
         // Update the store with latest status
@@ -1003,8 +870,9 @@ class BitbucketService {
       
       return null
     } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null
       console.error('Failed to check refresh job status:', error)
-      return null
+      throw error
     }
   }
 
@@ -1044,87 +912,6 @@ class BitbucketService {
     return refreshStatusStore.currentJob
   }
 
-  /**
-   * Poll a refresh job until completion
-   * @param jobId The job ID to poll
-   * @param maxWaitTime Maximum time to wait in milliseconds (default: 5 minutes)
-   * @param pollInterval Polling interval in milliseconds (default: 5 seconds)
-   * @returns Final job status
-   */
-  async pollRefreshJob(
-    jobId: string, 
-    maxWaitTime: number = 5 * 60 * 1000, // 5 minutes
-    pollInterval: number = 5000 // 5 seconds
-  ): Promise<RefreshJobStatus | null> {
-    const startTime = Date.now()
-    
-    console.log(`⏱️ Polling job ${jobId} for completion...`)
-    
-    while (Date.now() - startTime < maxWaitTime) {
-      const status = await this.checkRefreshJobStatus(jobId)
-      
-      if (!status) {
-        console.error('❌ Lost track of refresh job')
-        return null
-      }
-      
-      if (status.status === 'completed') {
-        console.log('✅ Refresh job completed successfully!')
-        return status
-      }
-      
-      if (status.status === 'failed') {
-        console.error('❌ Refresh job failed:', status.error)
-        return status
-      }
-      
-      // Still in progress, wait and try again
-      console.log(`⏳ Job ${status.status}${status.progress ? ` (${status.progress}%)` : ''}...`)
-      await new Promise(resolve => setTimeout(resolve, pollInterval))
-    }
-    
-    console.warn('⚠️ Polling timeout reached')
-    return await this.checkRefreshJobStatus(jobId)
-  }
-
-  /**
-   * Start a background refresh and optionally wait for completion
-   * @param maxDays Number of days to fetch
-   * @param selectedRepos Selected repositories
-   * @param waitForCompletion Whether to wait for job completion
-   * @returns Object with immediate data and job status
-   */
-  async startBackgroundRefresh(
-    maxDays: number = 12, 
-    selectedRepos: string[] | null = null,
-    waitForCompletion: boolean = false
-  ): Promise<{
-    data: ProcessedCommit[],
-    refreshJob: RefreshJobStatus | null,
-    finalJobStatus?: RefreshJobStatus | null
-  }> {
-    // Get immediate data with background refresh started
-    const data = await this.fetchAllData(maxDays, selectedRepos, true)
-    const refreshJob = refreshStatusStore.currentJob
-    
-    let finalJobStatus: RefreshJobStatus | null = null
-    
-    // Optionally wait for completion (not recommended for UI responsiveness)
-    if (waitForCompletion && refreshJob?.job_id) {
-      console.log('🔄 Waiting for background refresh to complete...')
-      finalJobStatus = await this.pollRefreshJob(refreshJob.job_id)
-      
-      if (finalJobStatus?.is_completed) {
-        // Fetch fresh data after job completion
-        console.log('📊 Fetching fresh data after job completion...')
-        const freshData = await this.fetchAllData(maxDays, selectedRepos, false) // Don't force another refresh
-        return { data: freshData, refreshJob, finalJobStatus }
-      }
-    }
-    
-    return { data, refreshJob, finalJobStatus }
-  }
-
   /**
    * Check if there's currently an active refresh job
    */
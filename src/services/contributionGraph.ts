@@ -0,0 +1,138 @@
+// Contribution Graph - a year of activity per day, GitHub style, with streaks and month totals
+// Fed from the stored history rather than the loaded period, so it reaches as far back as
+// activity has ever been fetched. Days before that are marked as not stored instead of empty,
+// so a short history does not look like a year off.
+
+import { getActivityTimestamp } from './activityCache'
+import { toLocalDateKey } from './timesheetUtils'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type {
+  ContributionDay,
+  ContributionGraph,
+  ContributionMonth,
+  ContributionPeriod,
+  ContributionStreak
+} from '../types/contributions'
+
+const WEEKS_IN_YEAR = 52
+
+/**
+ * First and last day of the period, both at local midnight.
+ */
+export function getContributionRange(period: ContributionPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'last-year') {
+    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    // 52 full weeks before the current one, starting on a Monday
+    const start = new Date(end)
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - WEEKS_IN_YEAR * 7)
+    return { start, end }
+  }
+  return { start: new Date(period, 0, 1), end: new Date(period, 11, 31) }
+}
+
+/**
+ * The calendar years the selector offers: from the year stored history begins to this one.
+ */
+export function getContributionYears(coveredFrom: number | null, now: Date = new Date()): number[] {
+  const first = coveredFrom === null ? now.getFullYear() : new Date(coveredFrom).getFullYear()
+  const years: number[] = []
+  for (let year = now.getFullYear(); year >= first; year--) years.push(year)
+  return years
+}
+
+function countPerDay(items: ProcessedCommit[]): Map<string, { commits: number; prs: number }> {
+  const counts = new Map<string, { commits: number; prs: number }>()
+  items.forEach(item => {
+    const time = getActivityTimestamp(item)
+    if (!time) return
+    const key = toLocalDateKey(new Date(time))
+    const day = counts.get(key) || { commits: 0, prs: 0 }
+    if (item.commit_hash) day.commits++
+    else day.prs++
+    counts.set(key, day)
+  })
+  return counts
+}
+
+/**
+ * Builds the grid, streaks and month totals for the period. `coveredFrom` is where the stored
+ * history begins; `items` should already be limited to the period and the active filters.
+ */
+export function buildContributionGraph(
+  items: ProcessedCommit[],
+  period: ContributionPeriod,
+  coveredFrom: number | null,
+  now: Date = new Date()
+): ContributionGraph {
+  const { start, end } = getContributionRange(period, now)
+  const counts = countPerDay(items)
+  const today = toLocalDateKey(now)
+  const firstStored = coveredFrom === null ? today : toLocalDateKey(new Date(coveredFrom))
+
+  const days: ContributionDay[] = []
+  for (const date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+    const key = toLocalDateKey(date)
+    const { commits, prs } = counts.get(key) || { commits: 0, prs: 0 }
+    days.push({ date: key, commits, prs, count: commits + prs, stored: key >= firstStored && key <= today })
+  }
+
+  // Pad the first week so every column starts on a Monday
+  const weeks: (ContributionDay | null)[][] = []
+  const cells: (ContributionDay | null)[] = [...new Array((start.getDay() + 6) % 7).fill(null), ...days]
+  for (let i = 0; i < cells.length; i += 7) {
+    const week = cells.slice(i, i + 7)
+    weeks.push([...week, ...new Array(7 - week.length).fill(null)])
+  }
+
+  // Streaks run over the days up to today; an empty today does not break the current one yet
+  let longestStreak: ContributionStreak | null = null
+  let run: ContributionStreak | null = null
+  const pastDays = days.filter(day => day.date <= today)
+  let previousRun: ContributionStreak | null = null // The run that ended on the day before
+  for (const day of pastDays) {
+    previousRun = run
+    if (day.count === 0) {
+      run = null
+      continue
+    }
+    const streak: ContributionStreak = previousRun
+      ? { ...previousRun, days: previousRun.days + 1, end: day.date }
+      : { days: 1, start: day.date, end: day.date }
+    run = streak
+    if (!longestStreak || streak.days > longestStreak.days) longestStreak = streak
+  }
+
+  let currentStreak: ContributionStreak | null = null
+  if (pastDays[pastDays.length - 1]?.date === today) {
+    // Until today has activity, the streak up to yesterday still counts
+    currentStreak = run || previousRun || { days: 0, start: today, end: today }
+  }
+
+  const months: ContributionMonth[] = []
+  days.forEach(day => {
+    const [year, month] = day.date.split('-').map(Number)
+    let last = months[months.length - 1]
+    if (!last || last.year !== year || last.month !== month - 1) {
+      last = { year, month: month - 1, commits: 0, prs: 0 }
+      months.push(last)
+    }
+    last.commits += day.commits
+    last.prs += day.prs
+  })
+
+  const busiestDay = days.reduce<ContributionDay | null>((busiest, day) => (
+    day.count > 0 && (!busiest || day.count > busiest.count) ? day : busiest
+  ), null)
+
+  return {
+    weeks,
+    total: days.reduce((sum, day) => sum + day.count, 0),
+    activeDays: days.filter(day => day.count > 0).length,
+    max: busiestDay?.count || 0,
+    currentStreak,
+    longestStreak,
+    busiestDay,
+    months
+  }
+}
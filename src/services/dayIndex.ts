@@ -0,0 +1,89 @@
+// Day Index - activity bucketed by local day, shared by the Dashboard widgets and the Calendar
+// Building the index parses every date once; after that a day or a range of days is a map
+// lookup instead of a pass over all items. Indexes are remembered per data array, so widgets
+// that get the same array share one, and a new array (new data or filters) gets a new one.
+
+import { toRaw } from 'vue'
+import { extractIssueId } from './activityUtils'
+import { getActivityTimestamp } from './activityCache'
+import { toLocalDateKey } from './timesheetUtils'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { DayIndex, DayStats } from '../types/dayIndex'
+
+const indexes = new WeakMap<ProcessedCommit[], DayIndex>()
+
+export function getDayIndex(items: ProcessedCommit[]): DayIndex {
+  const source = toRaw(items)
+  const cached = indexes.get(source)
+  if (cached) return cached
+
+  const index: DayIndex = { days: new Map(), times: new Map(), stats: new Map() }
+  source.forEach(item => {
+    const time = getActivityTimestamp(item)
+    index.times.set(item, time)
+    if (!time) return
+
+    const key = toLocalDateKey(new Date(time))
+    const day = index.days.get(key)
+    if (day) day.push(item)
+    else index.days.set(key, [item])
+  })
+
+  indexes.set(source, index)
+  return index
+}
+
+export function getDayItems(index: DayIndex, dayKey: string): ProcessedCommit[] {
+  return index.days.get(dayKey) || []
+}
+
+export function summarizeActivity(items: ProcessedCommit[]): DayStats {
+  let commits = 0
+  const tickets = new Set<string>()
+  const repos = new Set<string>()
+  items.forEach(item => {
+    if (item.commit_hash) commits++
+    const ticket = extractIssueId(item)
+    if (ticket) tickets.add(ticket)
+    repos.add(item.repo)
+  })
+  return { commits, prs: items.length - commits, tickets: tickets.size, repos: repos.size }
+}
+
+export function getDayStats(index: DayIndex, dayKey: string): DayStats {
+  let stats = index.stats.get(dayKey)
+  if (!stats) {
+    stats = summarizeActivity(getDayItems(index, dayKey))
+    index.stats.set(dayKey, stats)
+  }
+  return stats
+}
+
+/**
+ * Items from `start` up to and including `end`. Only the first and last day are checked
+ * item by item; the days in between are taken whole.
+ */
+export function getItemsBetween(index: DayIndex, start: Date, end: Date): ProcessedCommit[] {
+  const result: ProcessedCommit[] = []
+  if (end < start) return result
+
+  const startKey = toLocalDateKey(start)
+  const endKey = toLocalDateKey(end)
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+
+  for (let key = startKey; key <= endKey; day.setDate(day.getDate() + 1), key = toLocalDateKey(day)) {
+    const items = getDayItems(index, key)
+    if (key === startKey || key === endKey) {
+      const from = start.getTime()
+      const to = end.getTime()
+      items.forEach(item => {
+        const time = index.times.get(item)!
+        if (time >= from && time <= to) result.push(item)
+      })
+    } else {
+      result.push(...items)
+    }
+  }
+  return result
+}
@@ -0,0 +1,124 @@
+import { extractIssueId, getDisplayTitle } from './activityUtils'
+
+import type { AppFilters, ExportFormat, ExportRow, ProcessedCommit } from '../types/bitbucket'
+
+const EXPORT_COLUMNS: { key: keyof ExportRow; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'repo', label: 'Repository' },
+  { key: 'type', label: 'Type' },
+  { key: 'ticket', label: 'Ticket' },
+  { key: 'title', label: 'Title' },
+  { key: 'branch', label: 'Branch' },
+  { key: 'pr_state', label: 'PR State' }
+]
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  markdown: 'text/markdown;charset=utf-8'
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md'
+}
+
+/**
+ * Flattens activity items into export rows, newest first.
+ */
+export function buildExportRows(items: ProcessedCommit[]): ExportRow[] {
+  return items
+    .map((item: ProcessedCommit): ExportRow => ({
+      date: item.commit_date || item.pr_updated_on || '',
+      repo: item.repo || '',
+      type: item.commit_hash ? 'commit' : 'pull_request',
+      ticket: extractIssueId(item) || '',
+      title: getDisplayTitle(item),
+      branch: item.branch || '',
+      pr_state: item.pr_state || ''
+    }))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+function escapeMarkdownValue(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const header = EXPORT_COLUMNS.map(column => column.label).join(',')
+  const lines = rows.map(row =>
+    EXPORT_COLUMNS.map(column => escapeCsvValue(row[column.key])).join(',')
+  )
+  return [header, ...lines].join('\r\n')
+}
+
+export function toJson(rows: ExportRow[], filters: AppFilters): string {
+  return JSON.stringify({
+    exported_at: new Date().toISOString(),
+    filters,
+    count: rows.length,
+    items: rows
+  }, null, 2)
+}
+
+export function toMarkdown(rows: ExportRow[]): string {
+  const header = `| ${EXPORT_COLUMNS.map(column => column.label).join(' | ')} |`
+  const divider = `| ${EXPORT_COLUMNS.map(() => '---').join(' | ')} |`
+  const lines = rows.map(row =>
+    `| ${EXPORT_COLUMNS.map(column => escapeMarkdownValue(row[column.key])).join(' | ')} |`
+  )
+  return [header, divider, ...lines].join('\n') + '\n'
+}
+
+/**
+ * Builds a file name like `activity-last-12-days-2026-10-19.csv` or, for a custom range,
+ * `activity-2026-09-01-to-2026-09-30.csv`.
+ */
+export function getExportFileName(format: ExportFormat, filters: AppFilters): string {
+  const today = new Date().toISOString().split('T')[0]
+  const repoPart = filters.repos.length === 1 ? `-${filters.repos[0].split('/').pop()}` : ''
+  const rangePart = filters.startDate
+    ? `${filters.startDate}-to-${filters.endDate || today}`
+    : `last-${filters.dateRange}-days-${today}`
+  return `activity${repoPart}-${rangePart}.${FILE_EXTENSIONS[format]}`
+}
+
+export function serializeActivity(items: ProcessedCommit[], format: ExportFormat, filters: AppFilters): string {
+  const rows = buildExportRows(items)
+
+  switch (format) {
+    case 'csv':
+      return toCsv(rows)
+    case 'json':
+      return toJson(rows, filters)
+    case 'markdown':
+      return toMarkdown(rows)
+  }
+}
+
+/**
+ * Serializes the given activity and triggers a browser download.
+ */
+export function downloadActivity(items: ProcessedCommit[], format: ExportFormat, filters: AppFilters): void {
+  const content = serializeActivity(items, format, filters)
+  const blob = new Blob([content], { type: MIME_TYPES[format] })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = getExportFileName(format, filters)
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
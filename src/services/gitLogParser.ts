@@ -0,0 +1,98 @@
+import { createActivityItem } from './providers/providerUtils'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+
+// Every commit starts with a header line; the full message follows on the next lines.
+// The ASCII record and unit separators do not occur in commit messages, so a message line
+// is never mistaken for the start of another commit.
+const RECORD_SEPARATOR = '\x1e'
+const FIELD_SEPARATOR = '\x1f'
+
+/**
+ * The `git log` invocation whose output parseGitLog understands.
+ * Header fields, split by %x1f: hash, parent hashes, ISO date, author, decorations.
+ */
+export const GIT_LOG_COMMAND =
+  `git log --all --author="<your email>" --date=iso-strict --pretty=format:'%x1e%H%x1f%P%x1f%ad%x1f%an <%ae>%x1f%D%n%B'`
+
+const REMOTE_PREFIXES = ['origin/', 'upstream/']
+
+interface ParsedCommit {
+  hash: string;
+  parents: string[];
+  date: string;
+  author: string;
+  branch: string | null;
+  message: string[];
+}
+
+/**
+ * Picks a branch name from a `%D` decoration such as
+ * "HEAD -> feature/ABC-1, origin/feature/ABC-1, tag: v1.0".
+ */
+export function parseDecorations(decorations: string): string | null {
+  const refs = decorations
+    .split(',')
+    .map(ref => ref.trim().replace(/^HEAD -> /, ''))
+    .filter(ref => ref && ref !== 'HEAD' && !ref.startsWith('tag: ') && !ref.endsWith('/HEAD'))
+
+  // Prefer a local branch over its remote-tracking counterpart
+  const local = refs.find(ref => !REMOTE_PREFIXES.some(prefix => ref.startsWith(prefix)))
+  const ref = local || refs[0]
+  if (!ref) return null
+
+  const remote = REMOTE_PREFIXES.find(prefix => ref.startsWith(prefix))
+  return remote ? ref.slice(remote.length) : ref
+}
+
+function parseHeader(line: string): ParsedCommit | null {
+  const fields = line.split(FIELD_SEPARATOR)
+  if (fields.length !== 5) return null
+
+  const [hash, parents, date, author, decorations] = fields
+
+  if (!/^[0-9a-f]{7,40}$/i.test(hash) || Number.isNaN(new Date(date).getTime())) return null
+
+  return {
+    hash,
+    parents: parents.split(' ').filter(Boolean),
+    date: new Date(date).toISOString(),
+    author: author.trim(),
+    branch: parseDecorations(decorations),
+    message: []
+  }
+}
+
+/**
+ * Parses output of GIT_LOG_COMMAND into activity items for the given repository.
+ * Only branch tips carry decorations, so branch names are passed down to first parents.
+ */
+export function parseGitLog(text: string, repo: string): ProcessedCommit[] {
+  const commits: ParsedCommit[] = []
+
+  // Anything before the first separator is not part of a commit
+  for (const record of text.replace(/\r\n/g, '\n').split(RECORD_SEPARATOR).slice(1)) {
+    const [header, ...message] = record.split('\n')
+    const commit = parseHeader(header)
+    if (!commit) continue
+    commit.message = message
+    commits.push(commit)
+  }
+
+  const byHash = new Map(commits.map(commit => [commit.hash, commit]))
+  for (const commit of commits) {
+    const firstParent = byHash.get(commit.parents[0])
+    if (commit.branch && firstParent && !firstParent.branch) {
+      firstParent.branch = commit.branch
+    }
+  }
+
+  return commits.map(commit => createActivityItem({
+    repo,
+    commit_hash: commit.hash,
+    commit_date: commit.date,
+    commit_author_raw: commit.author,
+    commit_message: commit.message.join('\n').trim(),
+    branch: commit.branch
+  }))
+}
@@ -0,0 +1,230 @@
+// HTTP Client - shared fetch wrapper for the backend and third-party provider APIs
+// Adds JSON headers, retries with exponential backoff on 5xx and 429 (honouring Retry-After),
+// AbortSignal cancellation, de-duplication of identical in-flight GETs, and maps failures
+// to ApiError, AuthError and NetworkError.
+
+import { ApiError, AuthError, NetworkError } from '../types/errors'
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: unknown; // Serialised as JSON
+  signal?: AbortSignal;
+  retries?: number; // Defaults to MAX_RETRIES for idempotent methods
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const MAX_RETRIES = 3
+const BASE_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 30 * 1000
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE']
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'Accept': 'application/json',
+  'Content-Type': 'application/json'
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  403: 'Access forbidden. Insufficient permissions.',
+  404: 'Resource not found.',
+  429: 'Too many requests. Please try again later.',
+  500: 'Internal server error in backend.'
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The request was aborted', 'AbortError')
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = new Date(header).getTime()
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function isRetryableStatus(status: number, method: HttpMethod): boolean {
+  // A 429 means the request was not processed, so it is safe to repeat for every method
+  if (status === 429) return true
+  return status >= 500 && IDEMPOTENT_METHODS.includes(method)
+}
+
+class HttpClient {
+  private inFlight: Map<string, InFlightRequest> = new Map()
+
+  /**
+   * Performs a request and resolves with the parsed JSON body (undefined for empty responses).
+   * Identical GETs share a single network request while it is in flight.
+   */
+  request<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET'
+    if (method !== 'GET') {
+      return this.send<T>(url, options, options.signal)
+    }
+
+    const key = `${url}|${JSON.stringify(options.headers || {})}`
+    let entry = this.inFlight.get(key)
+
+    if (!entry) {
+      const controller = new AbortController()
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.send<T>(url, options, controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key)
+        })
+      }
+      this.inFlight.set(key, created)
+      entry = created
+    } else {
+      console.log('♻️ Reusing in-flight request:', url)
+    }
+
+    return this.subscribe<T>(key, entry, options.signal)
+  }
+
+  get<T>(url: string, options: Omit<HttpRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'GET' })
+  }
+
+  post<T>(url: string, body?: unknown, options: Omit<HttpRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'POST', body })
+  }
+
+  patch<T>(url: string, body?: unknown, options: Omit<HttpRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'PATCH', body })
+  }
+
+  delete<T>(url: string, options: Omit<HttpRequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'DELETE' })
+  }
+
+  // A shared GET is only aborted once every caller waiting on it has aborted
+  private subscribe<T>(key: string, entry: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    entry.subscribers++
+
+    return new Promise<T>((resolve, reject) => {
+      const release = () => {
+        entry.subscribers--
+        if (entry.subscribers === 0) {
+          entry.controller.abort()
+          if (this.inFlight.get(key) === entry) this.inFlight.delete(key)
+        }
+      }
+
+      if (signal?.aborted) {
+        release()
+        reject(createAbortError())
+        return
+      }
+
+      const onAbort = () => {
+        release()
+        reject(createAbortError())
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      ;(entry.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort))
+    })
+  }
+
+  private async send<T>(url: string, options: HttpRequestOptions, signal?: AbortSignal): Promise<T> {
+    const method = options.method || 'GET'
+    const maxRetries = options.retries ?? MAX_RETRIES
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+
+      try {
+        response = await fetch(url, {
+          method,
+          headers: { ...DEFAULT_HEADERS, ...options.headers },
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal
+        })
+      } catch (error) {
+        if (isAbortError(error)) throw error
+        if (attempt < maxRetries && IDEMPOTENT_METHODS.includes(method)) {
+          await sleep(this.getBackoffDelay(attempt), signal)
+          continue
+        }
+        throw new NetworkError(error instanceof Error ? error.message : `Request to ${url} failed`)
+      }
+
+      if (response.ok) {
+        return this.parseBody<T>(response, url)
+      }
+
+      if (response.status === 401) {
+        throw new AuthError(`Authentication failed for ${new URL(url, window.location.href).host}.`)
+      }
+
+      if (attempt < maxRetries && isRetryableStatus(response.status, method)) {
+        const delay = parseRetryAfter(response.headers.get('Retry-After')) ?? this.getBackoffDelay(attempt)
+        console.warn(`⏳ ${method} ${url} returned ${response.status}, retrying in ${Math.round(delay / 1000)}s`)
+        await sleep(Math.min(delay, MAX_RETRY_DELAY), signal)
+        continue
+      }
+
+      const message = STATUS_MESSAGES[response.status] || `HTTP Error ${response.status}: ${response.statusText}`
+      throw new ApiError(message, response.status, url)
+    }
+  }
+
+  private async parseBody<T>(response: Response, url: string): Promise<T> {
+    const text = await response.text()
+    if (!text) return undefined as T
+
+    try {
+      return JSON.parse(text) as T
+    } catch (error) {
+      throw new ApiError(`Failed to parse JSON response from ${url}`, response.status, url)
+    }
+  }
+
+  // 500ms, 1s, 2s, ... with jitter so parallel retries spread out
+  private getBackoffDelay(attempt: number): number {
+    const delay = BASE_RETRY_DELAY * 2 ** attempt
+    return Math.min(delay + Math.random() * delay * 0.25, MAX_RETRY_DELAY)
+  }
+}
+
+// Export singleton instance with proper typing
+export const httpClient = new HttpClient()
+
+export default httpClient
@@ -0,0 +1,103 @@
+// Keyboard Shortcuts - one global keydown handler for every command with a shortcut
+// Shortcuts are written as lowercase steps: modifiers joined with "+" ("mod+k", "shift+r"),
+// where "mod" is Cmd on macOS and Ctrl elsewhere, and a space between steps for sequences
+// ("g d": press G, then D). Plain keys are ignored while typing in a field; shortcuts with
+// "mod" work everywhere.
+
+import { onMounted, onBeforeUnmount, type Ref } from 'vue'
+
+import type { PaletteCommand } from '../types/commands'
+
+const SEQUENCE_TIMEOUT = 1000
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift']
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent)
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * The step a key press stands for, in the same notation as the shortcuts.
+ * Shift only counts for letters, so "?" matches without writing "shift+/".
+ */
+export function toShortcutStep(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+  const key = event.key.toLowerCase()
+  const parts: string[] = []
+  if (event.metaKey || event.ctrlKey) parts.push('mod')
+  if (event.altKey) parts.push('alt')
+  if (event.shiftKey && /^[a-z]$/.test(key)) parts.push('shift')
+  parts.push(key === ' ' ? 'space' : key)
+  return parts.join('+')
+}
+
+/**
+ * Display keys for a shortcut, e.g. "mod+k" -> ["⌘", "K"] on macOS and ["Ctrl", "K"] elsewhere.
+ */
+export function formatShortcut(shortcut: string): string[] {
+  const labels: Record<string, string> = {
+    mod: isMac ? '⌘' : 'Ctrl',
+    alt: isMac ? '⌥' : 'Alt',
+    shift: isMac ? '⇧' : 'Shift',
+    space: 'Space',
+    arrowdown: '↓',
+    arrowup: '↑',
+    escape: 'Esc'
+  }
+  return shortcut
+    .split(' ')
+    .flatMap(step => step.split('+'))
+    .map(key => labels[key] || key.toUpperCase())
+}
+
+interface ShortcutOptions {
+  isPaused?: () => boolean // e.g. while the palette is open; "mod" shortcuts still run
+}
+
+/**
+ * Runs commands when their shortcut is pressed. Must be called from a component's setup.
+ */
+export function useKeyboardShortcuts(commands: Ref<PaletteCommand[]>, options: ShortcutOptions = {}): void {
+  let pendingStep: string | null = null
+  let pendingTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const clearPending = () => {
+    pendingStep = null
+    if (pendingTimeout) clearTimeout(pendingTimeout)
+    pendingTimeout = null
+  }
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    const step = toShortcutStep(event)
+    if (!step) return
+
+    const isGlobal = step.startsWith('mod+')
+    if (!isGlobal && (isTypingTarget(event.target) || options.isPaused?.())) {
+      clearPending()
+      return
+    }
+
+    const withShortcut = commands.value.filter(command => command.shortcut)
+    const shortcut = pendingStep ? `${pendingStep} ${step}` : step
+    const command = withShortcut.find(candidate => candidate.shortcut === shortcut)
+    clearPending()
+
+    if (command) {
+      event.preventDefault()
+      command.run()
+    } else if (withShortcut.some(candidate => candidate.shortcut!.startsWith(`${step} `))) {
+      // First key of a sequence; wait briefly for the next one
+      event.preventDefault()
+      pendingStep = step
+      pendingTimeout = setTimeout(clearPending, SEQUENCE_TIMEOUT)
+    }
+  }
+
+  onMounted(() => window.addEventListener('keydown', handleKeydown))
+  onBeforeUnmount(() => {
+    window.removeEventListener('keydown', handleKeydown)
+    clearPending()
+  })
+}
@@ -0,0 +1,106 @@
+// Palette Commands - the app-wide entries of the command palette
+// App.vue passes in the handlers it owns (refresh, navigation, filter changes); pages add
+// their own commands through useCommandPalette().registerCommands while they are shown.
+
+import { extractIssueId, splitRepo } from './activityUtils'
+import { getDateRangeLabel, getMonthRange, getWeekRange } from './activityFilters'
+
+import type { AppFilters, ProcessedCommit } from '../types/bitbucket'
+import type { PaletteCommand } from '../types/commands'
+import type { SavedView } from '../types/views'
+
+export interface PaletteContext {
+  data: ProcessedCommit[];
+  filters: AppFilters;
+  views: SavedView[];
+  navigate: (path: string) => void;
+  changeFilters: (filters: Partial<AppFilters>, path?: string) => void;
+  openView: (view: SavedView) => void;
+  refresh: () => void;
+  forceRefresh: () => void;
+  clearCache: () => void;
+  copyFocusedRow: () => void;
+  togglePalette: () => void;
+}
+
+const PAGES: { path: string; label: string; shortcut: string }[] = [
+  { path: '/', label: 'Dashboard', shortcut: 'g d' },
+  { path: '/details', label: 'Details', shortcut: 'g l' },
+  { path: '/calendar', label: 'Calendar', shortcut: 'g c' },
+  { path: '/timesheet', label: 'Timesheet', shortcut: 'g t' },
+  { path: '/settings', label: 'Settings', shortcut: 'g s' }
+]
+
+const DATE_PRESETS = [1, 7, 12, 30, 60, 90]
+
+export function buildPaletteCommands(context: PaletteContext): PaletteCommand[] {
+  const { data, filters } = context
+
+  const navigation: PaletteCommand[] = PAGES.map(page => ({
+    id: `go-${page.label.toLowerCase()}`,
+    label: `Go to ${page.label}`,
+    group: 'Navigation',
+    shortcut: page.shortcut,
+    run: () => context.navigate(page.path)
+  }))
+
+  const actions: PaletteCommand[] = [
+    { id: 'palette', label: 'Command palette', group: 'Actions', shortcut: 'mod+k', keywords: 'shortcuts help', run: context.togglePalette },
+    { id: 'refresh', label: 'Refresh', group: 'Actions', shortcut: 'r', keywords: 'reload fetch', run: context.refresh },
+    { id: 'force-refresh', label: 'Force refresh', group: 'Actions', shortcut: 'shift+r', keywords: 'reload refetch bypass cache', run: context.forceRefresh },
+    { id: 'clear-cache', label: 'Clear cache', group: 'Actions', keywords: 'reset stored activity', run: context.clearCache },
+    { id: 'copy-row', label: 'Copy focused row for time writing', group: 'Actions', shortcut: 'c', keywords: 'clipboard ticket', run: context.copyFocusedRow }
+  ]
+
+  const dateRanges: PaletteCommand[] = [
+    ...DATE_PRESETS.map((days): PaletteCommand => ({
+      id: `range-${days}`,
+      label: days === 1 ? 'Today' : `Last ${days} days`,
+      group: 'Date range',
+      keywords: 'period days',
+      run: () => context.changeFilters({ dateRange: days, startDate: null, endDate: null })
+    })),
+    { id: 'range-this-week', label: 'This week', group: 'Date range', keywords: 'period', run: () => context.changeFilters(getWeekRange()) },
+    { id: 'range-this-month', label: 'This month', group: 'Date range', keywords: 'period', run: () => context.changeFilters(getMonthRange(0)) },
+    { id: 'range-last-month', label: 'Last month', group: 'Date range', keywords: 'period invoicing', run: () => context.changeFilters(getMonthRange(-1)) }
+  ]
+
+  // Point out which period is active without a separate command
+  const currentRange = getDateRangeLabel(filters)
+  dateRanges.forEach(command => {
+    if (command.label === currentRange) command.hint = 'current'
+  })
+
+  const views: PaletteCommand[] = context.views.map(view => ({
+    id: `view-${view.id}`,
+    label: view.name,
+    group: 'Views',
+    keywords: 'saved view',
+    run: () => context.openView(view)
+  }))
+
+  const repos = [...new Set(data.map(item => item.repo).filter(Boolean))].sort()
+  const repositories: PaletteCommand[] = repos.map(repo => ({
+    id: `repo-${repo}`,
+    label: repo,
+    group: 'Repositories',
+    keywords: 'repository repo',
+    hint: filters.repos.length === 1 && filters.repos[0] === repo ? 'current' : undefined,
+    run: () => {
+      const { workspace, name } = splitRepo(repo)
+      if (workspace) context.navigate(`/repos/${encodeURIComponent(workspace)}/${encodeURIComponent(name)}`)
+      else context.changeFilters({ repos: [repo] }, '/details')
+    }
+  }))
+
+  const tickets = [...new Set(data.map(extractIssueId).filter((key): key is string => !!key))].sort()
+  const ticketCommands: PaletteCommand[] = tickets.map(key => ({
+    id: `ticket-${key}`,
+    label: key,
+    group: 'Tickets',
+    keywords: 'ticket issue',
+    run: () => context.navigate(`/tickets/${encodeURIComponent(key)}`)
+  }))
+
+  return [...navigation, ...actions, ...dateRanges, ...views, ...repositories, ...ticketCommands]
+}
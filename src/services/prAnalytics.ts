@@ -0,0 +1,171 @@
+// PR Analytics - how long pull requests take, how many get dropped and where they pile up
+// Items of one PR (its own item and, from Bitbucket, the commits fetched with it) are put
+// together first. No provider delivers a merge timestamp, so time to merge runs from
+// pr_created_on to the merged PR's last pr_updated_on.
+
+import { toLocalDateKey } from './timesheetUtils'
+import { PR_STATES } from './activityFilters'
+
+import type { PrState, ProcessedCommit } from '../types/bitbucket'
+import type { MergeTimeBucket, OpenPullRequest, PrAnalytics, PullRequestRecord, RepoPrTrend } from '../types/pullRequests'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const MERGE_TIME_BUCKETS: Omit<MergeTimeBucket, 'count'>[] = [
+  { label: '< 1h', maxHours: 1 },
+  { label: '1–4h', maxHours: 4 },
+  { label: '4–24h', maxHours: 24 },
+  { label: '1–3d', maxHours: 72 },
+  { label: '3–7d', maxHours: 168 },
+  { label: '1–2w', maxHours: 336 },
+  { label: '> 2w', maxHours: Infinity }
+]
+
+// Periods longer than a month count opened PRs per week instead of per day
+const WEEKLY_AFTER_DAYS = 31
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = sorted.length >> 1
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * One record per pull request; commits without a PR are left out.
+ */
+export function collectPullRequests(items: ProcessedCommit[]): PullRequestRecord[] {
+  const records = new Map<string, PullRequestRecord>()
+
+  items.forEach(item => {
+    if (item.pr_id == null && !item.pr) return
+    const key = `${item.repo}:${item.pr_id ?? item.pr}`
+    let record = records.get(key)
+    if (!record) {
+      record = {
+        key,
+        repo: item.repo,
+        id: item.pr_id,
+        title: item.pr || `#${item.pr_id}`,
+        author: item.pr_author_display_name,
+        state: null,
+        created: null,
+        updated: null,
+        commits: 0
+      }
+      records.set(key, record)
+    }
+
+    if (item.commit_hash) record.commits++
+    // The PR's own item knows its current state; commits may carry an older copy
+    if (item.pr_state && (!record.state || !item.commit_hash)) record.state = item.pr_state
+
+    const created = parseDate(item.pr_created_on)
+    const updated = parseDate(item.pr_updated_on)
+    if (created && (!record.created || created < record.created)) record.created = created
+    if (updated && (!record.updated || updated > record.updated)) record.updated = updated
+  })
+
+  return [...records.values()]
+}
+
+function getMergeHours(pr: PullRequestRecord): number | null {
+  if (pr.state !== 'MERGED' || !pr.created || !pr.updated) return null
+  return Math.max(0, pr.updated.getTime() - pr.created.getTime()) / HOUR
+}
+
+/**
+ * Lifecycle figures for the PRs with activity in `items`. `periodDays` (local date keys, as
+ * from getPeriodDays) sets the buckets of the per-repository trend.
+ */
+export function analyzePullRequests(items: ProcessedCommit[], periodDays: string[], now: Date = new Date()): PrAnalytics {
+  const prs = collectPullRequests(items)
+
+  const states = Object.fromEntries(PR_STATES.map(state => [state, 0])) as Record<PrState, number>
+  prs.forEach(pr => {
+    if (pr.state) states[pr.state]++
+  })
+  const closed = states.MERGED + states.DECLINED + states.SUPERSEDED
+
+  const mergeHours = prs.map(getMergeHours).filter((hours): hours is number => hours !== null)
+  const mergeTimes = MERGE_TIME_BUCKETS.map(bucket => ({ ...bucket, count: 0 }))
+  mergeHours.forEach(hours => {
+    mergeTimes.find(bucket => hours < bucket.maxHours)!.count++
+  })
+
+  const openPrs: OpenPullRequest[] = prs
+    .filter(pr => pr.state === 'OPEN' && pr.created)
+    .map(pr => ({
+      pr,
+      ageDays: Math.floor((now.getTime() - pr.created!.getTime()) / DAY),
+      idleDays: Math.floor((now.getTime() - (pr.updated || pr.created)!.getTime()) / DAY)
+    }))
+    .sort((a, b) => b.ageDays - a.ageDays)
+
+  const commitCounts = prs.map(pr => pr.commits).filter(count => count > 0)
+  const commitsPerPr = commitCounts.length > 0
+    ? {
+        average: commitCounts.reduce((sum, count) => sum + count, 0) / commitCounts.length,
+        median: median(commitCounts)!,
+        prs: commitCounts.length
+      }
+    : null
+
+  const bucketDays = periodDays.length > WEEKLY_AFTER_DAYS ? 7 : 1
+  const bucketCount = Math.ceil(periodDays.length / bucketDays)
+  const dayPositions = new Map(periodDays.map((day, position) => [day, position]))
+
+  const repoPrs = new Map<string, PullRequestRecord[]>()
+  prs.forEach(pr => {
+    if (!repoPrs.has(pr.repo)) repoPrs.set(pr.repo, [])
+    repoPrs.get(pr.repo)!.push(pr)
+  })
+
+  const repos: RepoPrTrend[] = [...repoPrs.entries()]
+    .map(([repo, list]) => {
+      const opened = new Array<number>(bucketCount).fill(0)
+      list.forEach(pr => {
+        const position = pr.created ? dayPositions.get(toLocalDateKey(pr.created)) : undefined
+        if (position !== undefined) opened[Math.floor(position / bucketDays)]++
+      })
+      return {
+        repo,
+        prs: list.length,
+        merged: list.filter(pr => pr.state === 'MERGED').length,
+        medianMergeHours: median(list.map(getMergeHours).filter((hours): hours is number => hours !== null)),
+        opened
+      }
+    })
+    .sort((a, b) => b.prs - a.prs || a.repo.localeCompare(b.repo))
+
+  return {
+    total: prs.length,
+    states,
+    declinedRatio: closed ? states.DECLINED / closed : 0,
+    supersededRatio: closed ? states.SUPERSEDED / closed : 0,
+    mergeTimes,
+    medianMergeHours: median(mergeHours),
+    openPrs,
+    commitsPerPr,
+    repos,
+    bucketDays
+  }
+}
+
+/**
+ * "45m", "6h", "3.5d" - short enough for a table cell.
+ */
+export function formatDurationHours(hours: number | null): string {
+  if (hours === null) return '—'
+  if (hours < 1) return `${Math.round(hours * 60)}m`
+  if (hours < 24) return `${Math.round(hours)}h`
+  const days = hours / 24
+  return `${days < 10 ? Math.round(days * 10) / 10 : Math.round(days)}d`
+}
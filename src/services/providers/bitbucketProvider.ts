@@ -0,0 +1,75 @@
+// Bitbucket provider backed by the Laravel backend
+// Delegates to BitbucketService, which talks to /bitbucket/activity and handles refresh jobs.
+
+import { bitbucketService } from '../bitbucketService'
+import { getFetchRange, isInRange } from './providerUtils'
+import { getActivityKey } from '../activityCache'
+
+import type { BitbucketRepository, ProcessedCommit } from '../../types/bitbucket'
+import type { ActivityFetchParams, ActivityProvider, ProviderConnection } from '../../types/providers'
+
+export class BitbucketProvider implements ActivityProvider {
+  readonly type = 'bitbucket' as const
+  private connection: ProviderConnection
+
+  constructor(connection: ProviderConnection) {
+    this.connection = connection
+  }
+
+  get id(): string {
+    return this.connection.id
+  }
+
+  get label(): string {
+    return this.connection.workspace ? `Bitbucket (${this.connection.workspace})` : 'Bitbucket'
+  }
+
+  async fetchRepositories(): Promise<BitbucketRepository[]> {
+    const repositories = await bitbucketService.fetchAllRepositories()
+    return repositories.filter(repo => this.isInWorkspace(`${repo.workspace || ''}/${repo.name}`))
+  }
+
+  async fetchActivity(params: ActivityFetchParams): Promise<ProcessedCommit[]> {
+    const { maxDays, selectedRepos, forceRefresh } = params
+    const range = getFetchRange(params)
+
+    // The backend filters on one author per request: null is the configured author, then each teammate.
+    // Only the author's own request forces a backend refresh, so one click starts one refresh job.
+    const teammates = (params.teammates || [])
+      .map(member => member.accounts.bitbucket || member.emails[0])
+      .filter((author): author is string => !!author)
+    const responses = await Promise.all([null, ...teammates].map(author => bitbucketService.fetchAllData(maxDays, selectedRepos, !author && forceRefresh, {
+      since: params.since || null,
+      until: range.until,
+      author,
+      repository: params.repository || null,
+      signal: params.signal
+    })))
+
+    // A pull request can come back for several authors; keep it once
+    const seen = new Set<string>()
+    const data = responses.flat().filter(item => {
+      const key = getActivityKey(item)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+    // The backend may only honour `days`, so trim delta and backfill responses to the requested window
+    return data
+      .filter(item => this.isInWorkspace(item.repo))
+      .filter(item => !params.repository || item.repo === params.repository)
+      .filter(item => isInRange(item.commit_date || item.pr_updated_on, range))
+      .map(item => ({ ...item, provider: 'bitbucket' as const }))
+  }
+
+  clearCache(): void {
+    bitbucketService.clearCache()
+  }
+
+  // The backend serves every workspace at once; a connection can narrow it down to one
+  private isInWorkspace(repo: string): boolean {
+    if (!this.connection.workspace || !repo.includes('/')) return true
+    return repo.startsWith(`${this.connection.workspace}/`)
+  }
+}
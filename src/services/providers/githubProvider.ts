@@ -0,0 +1,193 @@
+// GitHub REST API provider
+// Reads commits and pull requests straight from api.github.com (or a GitHub Enterprise URL)
+// using a personal access token configured in Settings.
+
+import { fetchProviderJson, getFetchRange, getAuthorLogins, getRequestedRepositories, isInRange, createActivityItem } from './providerUtils'
+import { ApiError } from '../../types/errors'
+
+import type { BitbucketRepository, ProcessedCommit } from '../../types/bitbucket'
+import type { ActivityFetchParams, ActivityProvider, ActivityRange, ProviderConnection } from '../../types/providers'
+
+interface GitHubRepository {
+  name: string;
+  pushed_at: string | null;
+  language: string | null;
+  archived: boolean;
+}
+
+interface GitHubCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string };
+  };
+}
+
+interface GitHubPullRequest {
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  merged_at: string | null;
+  created_at: string;
+  updated_at: string;
+  user: { login: string } | null;
+  head: { ref: string };
+}
+
+const DEFAULT_BASE_URL = 'https://api.github.com'
+const MAX_PAGES = 3
+const MAX_REPOSITORIES = 30
+
+export class GitHubProvider implements ActivityProvider {
+  readonly type = 'github' as const
+  private connection: ProviderConnection
+  private repositoriesCache: BitbucketRepository[] | null = null
+
+  constructor(connection: ProviderConnection) {
+    this.connection = connection
+  }
+
+  get id(): string {
+    return this.connection.id
+  }
+
+  get label(): string {
+    return `GitHub (${this.connection.workspace})`
+  }
+
+  private get baseUrl(): string {
+    return (this.connection.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')
+  }
+
+  private get headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json'
+    }
+    if (this.connection.token) {
+      headers['Authorization'] = `Bearer ${this.connection.token}`
+    }
+    return headers
+  }
+
+  private async getPaged<T>(url: string, signal?: AbortSignal): Promise<T[]> {
+    const separator = url.includes('?') ? '&' : '?'
+    let results: T[] = []
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const values = await fetchProviderJson<T[]>(`${url}${separator}per_page=100&page=${page}`, this.headers, signal)
+      results = [...results, ...values]
+      if (values.length < 100) break
+    }
+
+    return results
+  }
+
+  async fetchRepositories(): Promise<BitbucketRepository[]> {
+    if (this.repositoriesCache) return this.repositoriesCache
+
+    const owner = encodeURIComponent(this.connection.workspace)
+    let repositories: GitHubRepository[]
+
+    try {
+      repositories = await this.getPaged<GitHubRepository>(`${this.baseUrl}/orgs/${owner}/repos?sort=pushed`)
+    } catch (error) {
+      // Personal accounts are not organisations
+      if (error instanceof ApiError && error.status === 404) {
+        repositories = await this.getPaged<GitHubRepository>(`${this.baseUrl}/users/${owner}/repos?sort=pushed`)
+      } else {
+        throw error
+      }
+    }
+
+    this.repositoriesCache = repositories
+      .filter(repo => !repo.archived)
+      .map(repo => ({
+        name: repo.name,
+        updated_on: repo.pushed_at,
+        language: repo.language,
+        workspace: this.connection.workspace
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return this.repositoriesCache
+  }
+
+  async fetchActivity(params: ActivityFetchParams): Promise<ProcessedCommit[]> {
+    const range = getFetchRange(params)
+    const repositories = getRequestedRepositories(this.connection, params) || await this.getActiveRepositories(range.since)
+    const logins = getAuthorLogins(this.connection, params)
+
+    console.log(`🐙 Fetching GitHub activity for ${repositories.length} repositories in ${this.connection.workspace}`)
+
+    // The commits endpoint filters on a single author, so each login gets its own request
+    const perRepo = await Promise.all(repositories.map(async (name) => {
+      const [commits, pullRequests] = await Promise.all([
+        Promise.all((logins.length > 0 ? logins : [null]).map(login => this.fetchCommits(name, range, login, params.signal))),
+        this.fetchPullRequests(name, range, logins, params.signal)
+      ])
+      return [...commits.flat(), ...pullRequests]
+    }))
+
+    return perRepo.flat()
+  }
+
+  clearCache(): void {
+    this.repositoriesCache = null
+  }
+
+  // Only look at repositories pushed to in the period, unless a list is configured
+  private async getActiveRepositories(since: string): Promise<string[]> {
+    if (this.connection.repositories.length > 0) {
+      return this.connection.repositories
+    }
+
+    const repositories = await this.fetchRepositories()
+    return repositories
+      .filter(repo => repo.updated_on && repo.updated_on >= since)
+      .slice(0, MAX_REPOSITORIES)
+      .map(repo => repo.name)
+  }
+
+  private async fetchCommits(repoName: string, range: ActivityRange, login: string | null, signal?: AbortSignal): Promise<ProcessedCommit[]> {
+    const owner = encodeURIComponent(this.connection.workspace)
+    const author = login ? `&author=${encodeURIComponent(login)}` : ''
+    const until = range.until ? `&until=${range.until}` : ''
+    const url = `${this.baseUrl}/repos/${owner}/${encodeURIComponent(repoName)}/commits?since=${range.since}${until}${author}`
+
+    const commits = await this.getPaged<GitHubCommit>(url, signal)
+
+    return commits.map(commit => createActivityItem({
+      repo: `${this.connection.workspace}/${repoName}`,
+      provider: 'github',
+      commit_hash: commit.sha,
+      commit_date: commit.commit.author.date,
+      commit_author_raw: `${commit.commit.author.name} <${commit.commit.author.email}>`,
+      author_username: login,
+      commit_message: commit.commit.message
+    }))
+  }
+
+  private async fetchPullRequests(repoName: string, range: ActivityRange, logins: string[], signal?: AbortSignal): Promise<ProcessedCommit[]> {
+    const owner = encodeURIComponent(this.connection.workspace)
+    const url = `${this.baseUrl}/repos/${owner}/${encodeURIComponent(repoName)}/pulls?state=all&sort=updated&direction=desc`
+
+    const pullRequests = await this.getPaged<GitHubPullRequest>(url, signal)
+
+    return pullRequests
+      .filter(pr => isInRange(pr.updated_at, range))
+      .filter(pr => logins.length === 0 || logins.includes(pr.user?.login || ''))
+      .map(pr => createActivityItem({
+        repo: `${this.connection.workspace}/${repoName}`,
+        provider: 'github',
+        commit_date: pr.updated_at,
+        branch: pr.head.ref,
+        pr: pr.title,
+        pr_id: pr.number,
+        pr_state: pr.merged_at ? 'MERGED' : pr.state === 'open' ? 'OPEN' : 'DECLINED',
+        pr_author_display_name: pr.user?.login || null,
+        author_username: pr.user?.login || null,
+        pr_created_on: pr.created_at,
+        pr_updated_on: pr.updated_at
+      }))
+  }
+}
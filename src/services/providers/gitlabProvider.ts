@@ -0,0 +1,185 @@
+// GitLab REST API provider
+// Reads commits and merge requests from gitlab.com (or a self-hosted instance)
+// using a personal access token configured in Settings.
+
+import { fetchProviderJson, getFetchRange, getAuthorLogins, getRequestedRepositories, createActivityItem } from './providerUtils'
+
+import type { BitbucketRepository, ProcessedCommit } from '../../types/bitbucket'
+import type { ActivityFetchParams, ActivityProvider, ActivityRange, ProviderConnection } from '../../types/providers'
+
+interface GitLabProject {
+  path: string;
+  path_with_namespace: string;
+  last_activity_at: string | null;
+  archived: boolean;
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  created_at: string;
+  updated_at: string;
+  source_branch: string;
+  author: { username: string; name: string } | null;
+}
+
+const DEFAULT_BASE_URL = 'https://gitlab.com/api/v4'
+const MAX_PAGES = 3
+const MAX_REPOSITORIES = 30
+
+const MERGE_REQUEST_STATES: Record<GitLabMergeRequest['state'], ProcessedCommit['pr_state']> = {
+  opened: 'OPEN',
+  locked: 'OPEN',
+  merged: 'MERGED',
+  closed: 'DECLINED'
+}
+
+export class GitLabProvider implements ActivityProvider {
+  readonly type = 'gitlab' as const
+  private connection: ProviderConnection
+  private repositoriesCache: BitbucketRepository[] | null = null
+
+  constructor(connection: ProviderConnection) {
+    this.connection = connection
+  }
+
+  get id(): string {
+    return this.connection.id
+  }
+
+  get label(): string {
+    return `GitLab (${this.connection.workspace})`
+  }
+
+  private get baseUrl(): string {
+    return (this.connection.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')
+  }
+
+  private get headers(): Record<string, string> {
+    return this.connection.token ? { 'PRIVATE-TOKEN': this.connection.token } : {}
+  }
+
+  // GitLab accepts the URL-encoded "group/project" path wherever a project ID is expected
+  private projectId(repoName: string): string {
+    return encodeURIComponent(`${this.connection.workspace}/${repoName}`)
+  }
+
+  private async getPaged<T>(url: string, signal?: AbortSignal): Promise<T[]> {
+    const separator = url.includes('?') ? '&' : '?'
+    let results: T[] = []
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const values = await fetchProviderJson<T[]>(`${url}${separator}per_page=100&page=${page}`, this.headers, signal)
+      results = [...results, ...values]
+      if (values.length < 100) break
+    }
+
+    return results
+  }
+
+  async fetchRepositories(): Promise<BitbucketRepository[]> {
+    if (this.repositoriesCache) return this.repositoriesCache
+
+    const group = encodeURIComponent(this.connection.workspace)
+    const projects = await this.getPaged<GitLabProject>(
+      `${this.baseUrl}/groups/${group}/projects?include_subgroups=true&order_by=last_activity_at`
+    )
+
+    this.repositoriesCache = projects
+      .filter(project => !project.archived)
+      .map(project => ({
+        // Keep subgroup paths so the project can be addressed again later
+        name: project.path_with_namespace.slice(this.connection.workspace.length + 1) || project.path,
+        updated_on: project.last_activity_at,
+        language: null,
+        workspace: this.connection.workspace
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return this.repositoriesCache
+  }
+
+  async fetchActivity(params: ActivityFetchParams): Promise<ProcessedCommit[]> {
+    const range = getFetchRange(params)
+    const repositories = getRequestedRepositories(this.connection, params) || await this.getActiveRepositories(range.since)
+    const logins = getAuthorLogins(this.connection, params)
+
+    console.log(`🦊 Fetching GitLab activity for ${repositories.length} projects in ${this.connection.workspace}`)
+
+    // Both endpoints filter on a single author, so each login gets its own requests
+    const perRepo = await Promise.all(repositories.map(async (name) => {
+      const perLogin = await Promise.all((logins.length > 0 ? logins : [null]).map(login => Promise.all([
+        this.fetchCommits(name, range, login, params.signal),
+        this.fetchMergeRequests(name, range, login, params.signal)
+      ])))
+      return perLogin.flat(2)
+    }))
+
+    return perRepo.flat()
+  }
+
+  clearCache(): void {
+    this.repositoriesCache = null
+  }
+
+  private async getActiveRepositories(since: string): Promise<string[]> {
+    if (this.connection.repositories.length > 0) {
+      return this.connection.repositories
+    }
+
+    const repositories = await this.fetchRepositories()
+    return repositories
+      .filter(repo => repo.updated_on && repo.updated_on >= since)
+      .slice(0, MAX_REPOSITORIES)
+      .map(repo => repo.name)
+  }
+
+  private async fetchCommits(repoName: string, range: ActivityRange, login: string | null, signal?: AbortSignal): Promise<ProcessedCommit[]> {
+    const author = login ? `&author=${encodeURIComponent(login)}` : ''
+    const until = range.until ? `&until=${range.until}` : ''
+    const url = `${this.baseUrl}/projects/${this.projectId(repoName)}/repository/commits?since=${range.since}${until}&all=true${author}`
+
+    const commits = await this.getPaged<GitLabCommit>(url, signal)
+
+    return commits.map(commit => createActivityItem({
+      repo: `${this.connection.workspace}/${repoName}`,
+      provider: 'gitlab',
+      commit_hash: commit.id,
+      commit_date: commit.authored_date,
+      commit_author_raw: `${commit.author_name} <${commit.author_email}>`,
+      author_username: login,
+      commit_message: commit.message
+    }))
+  }
+
+  private async fetchMergeRequests(repoName: string, range: ActivityRange, login: string | null, signal?: AbortSignal): Promise<ProcessedCommit[]> {
+    const author = login ? `&author_username=${encodeURIComponent(login)}` : ''
+    const until = range.until ? `&updated_before=${range.until}` : ''
+    const url = `${this.baseUrl}/projects/${this.projectId(repoName)}/merge_requests?scope=all&updated_after=${range.since}${until}${author}`
+
+    const mergeRequests = await this.getPaged<GitLabMergeRequest>(url, signal)
+
+    return mergeRequests.map(mr => createActivityItem({
+      repo: `${this.connection.workspace}/${repoName}`,
+      provider: 'gitlab',
+      commit_date: mr.updated_at,
+      branch: mr.source_branch,
+      pr: mr.title,
+      pr_id: mr.iid,
+      pr_state: MERGE_REQUEST_STATES[mr.state],
+      pr_author_display_name: mr.author?.name || null,
+      author_username: mr.author?.username || null,
+      pr_created_on: mr.created_at,
+      pr_updated_on: mr.updated_at
+    }))
+  }
+}
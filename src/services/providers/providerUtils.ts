@@ -0,0 +1,81 @@
+import { httpClient } from '../httpClient'
+import { AuthError } from '../../types/errors'
+
+import type { ProcessedCommit } from '../../types/bitbucket'
+import type { ActivityFetchParams, ActivityRange, ProviderConnection } from '../../types/providers'
+
+/**
+ * GET a JSON resource from a third-party REST API through the shared HTTP client.
+ */
+export async function fetchProviderJson<T>(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<T> {
+  try {
+    return await httpClient.get<T>(url, { headers, signal })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new AuthError(`Authentication failed for ${new URL(url).host}. Please check the token in Settings.`)
+    }
+    throw error
+  }
+}
+
+export function getSinceDate(maxDays: number): string {
+  return new Date(Date.now() - maxDays * 24 * 60 * 60 * 1000).toISOString()
+}
+
+export function getFetchRange({ maxDays, since, until }: ActivityFetchParams): ActivityRange {
+  return {
+    since: since || getSinceDate(maxDays),
+    until: until || null
+  }
+}
+
+export function isInRange(date: string | null | undefined, range: ActivityRange): boolean {
+  if (!date) return false
+  const time = new Date(date).getTime()
+  return time >= new Date(range.since).getTime() && (!range.until || time < new Date(range.until).getTime())
+}
+
+/**
+ * Repository names a fetch is narrowed to: the requested repository when it lies in the
+ * connection's workspace, nothing when it lies elsewhere, and null for a normal fetch.
+ */
+export function getRequestedRepositories(connection: ProviderConnection, params: ActivityFetchParams): string[] | null {
+  if (!params.repository) return null
+  const prefix = `${connection.workspace}/`
+  return params.repository.startsWith(prefix) ? [params.repository.slice(prefix.length)] : []
+}
+
+/**
+ * Logins to fetch activity for: the connection's own author plus every teammate with an account on this provider.
+ * Empty when the connection has no author, in which case providers fetch everyone's activity.
+ */
+export function getAuthorLogins(connection: ProviderConnection, params: ActivityFetchParams): string[] {
+  if (!connection.username) return []
+  const teammates = (params.teammates || []).map(member => member.accounts[connection.type])
+  return [...new Set([connection.username, ...teammates].filter((login): login is string => !!login))]
+}
+
+/**
+ * Builds an empty activity item; providers fill in the commit or PR fields they know.
+ * Tickets are left to resolveTicket so they follow the patterns configured in Settings.
+ */
+export function createActivityItem(fields: Partial<ProcessedCommit> & Pick<ProcessedCommit, 'repo'>): ProcessedCommit {
+  return {
+    commit_hash: '',
+    commit_date: '',
+    commit_author_raw: '',
+    commit_message: '',
+    branch: null,
+    pr_state: null,
+    provider: null,
+    ticket: null,
+    ticket_source: null,
+    pr: null,
+    pr_id: null,
+    pr_author_display_name: null,
+    pr_created_on: null,
+    pr_updated_on: null,
+    pr_links_commits_href: null,
+    ...fields
+  }
+}
@@ -0,0 +1,204 @@
+// Refresh Job Tracker - the single place that follows backend refresh jobs
+// Subscribes to the refresh-status/{jobId}/stream Server-Sent Events endpoint and feeds
+// refreshStatusStore as events arrive. When the stream is unavailable or goes quiet it falls
+// back to one polling loop with exponential backoff. Only one job is tracked at a time.
+
+import { bitbucketService } from './bitbucketService'
+import { errorService, ErrorSeverity } from './errorService'
+import { refreshStatusStore } from '../stores/refreshStore'
+
+import type { RefreshJobStatus } from '../types/bitbucket'
+
+type JobFinishedListener = (status: RefreshJobStatus) => void
+
+const POLL_INITIAL_DELAY = 2000
+const POLL_MAX_DELAY = 30 * 1000
+const POLL_BACKOFF_FACTOR = 1.5
+// Consecutive "job not found" responses before the job is considered gone; network errors do not count
+const MAX_MISSED_POLLS = 3
+// A job that reports no change for this long is treated as stalled, however long it has run
+const STALL_TIMEOUT = 10 * 60 * 1000
+// A stream that stays open without events for this long is dropped for polling, which checks for stalls
+const STREAM_IDLE_TIMEOUT = 60 * 1000
+
+export function isJobFinished(status: RefreshJobStatus): boolean {
+  return status.is_completed || status.is_failed || (status.is_cancelled || false)
+}
+
+class RefreshJobTracker {
+  private jobId: string | null = null
+  private eventSource: EventSource | null = null
+  private streamTimer: ReturnType<typeof setTimeout> | null = null
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private pollDelay = POLL_INITIAL_DELAY
+  private missedPolls = 0
+  private lastChangeAt = 0
+  private lastFingerprint = ''
+  private listeners: Set<JobFinishedListener> = new Set()
+
+  get trackedJobId(): string | null {
+    return this.jobId
+  }
+
+  /**
+   * Starts following a job. Tracking the job that is already followed is a no-op,
+   * and tracking a different one replaces it, so there is never more than one subscription.
+   */
+  track(jobId: string): void {
+    if (this.jobId === jobId) return
+
+    this.stop()
+    this.jobId = jobId
+    this.lastChangeAt = Date.now()
+    this.lastFingerprint = ''
+
+    if (typeof EventSource === 'undefined') {
+      this.startPolling()
+      return
+    }
+
+    console.log('📡 Subscribing to refresh job stream:', jobId)
+    const source = new EventSource(bitbucketService.getRefreshJobStreamUrl(jobId))
+    this.eventSource = source
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      this.resetStreamTimer(source)
+      try {
+        this.handleStatus(jobId, JSON.parse(event.data) as RefreshJobStatus)
+      } catch (error) {
+        console.warn('Ignoring malformed refresh job event:', error)
+      }
+    }
+
+    // EventSource would reconnect on its own; a single backoff poller is easier to reason about
+    source.onerror = () => {
+      if (this.eventSource !== source) return
+      console.warn('⚠️ Refresh job stream unavailable, falling back to polling')
+      this.closeStream()
+      this.startPolling()
+    }
+    this.resetStreamTimer(source)
+  }
+
+  stop(): void {
+    this.closeStream()
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.jobId = null
+    this.pollDelay = POLL_INITIAL_DELAY
+    this.missedPolls = 0
+  }
+
+  /**
+   * Registers a callback for when the tracked job completes, fails or is cancelled.
+   * Returns a function that removes the callback.
+   */
+  onJobFinished(listener: JobFinishedListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private closeStream(): void {
+    if (this.streamTimer) {
+      clearTimeout(this.streamTimer)
+      this.streamTimer = null
+    }
+    if (this.eventSource) {
+      this.eventSource.close()
+      this.eventSource = null
+    }
+  }
+
+  // Restarted on every event; an open stream that never delivers would otherwise hide a stalled job
+  private resetStreamTimer(source: EventSource): void {
+    if (this.streamTimer) clearTimeout(this.streamTimer)
+    this.streamTimer = setTimeout(() => {
+      this.streamTimer = null
+      if (this.eventSource !== source) return
+      console.warn('⚠️ Refresh job stream went quiet, falling back to polling')
+      this.closeStream()
+      this.startPolling()
+    }, STREAM_IDLE_TIMEOUT)
+  }
+
+  private startPolling(): void {
+    const jobId = this.jobId
+    if (!jobId) return
+
+    console.log('⏱️ Polling refresh job:', jobId)
+    this.schedulePoll(jobId, 0)
+  }
+
+  private schedulePoll(jobId: string, delay: number): void {
+    this.pollTimer = setTimeout(() => this.poll(jobId), delay)
+  }
+
+  private async poll(jobId: string): Promise<void> {
+    this.pollTimer = null
+    let status: RefreshJobStatus | null
+    try {
+      status = await bitbucketService.checkRefreshJobStatus(jobId)
+    } catch {
+      // The backend is unreachable for now, which says nothing about the job: keep polling
+      if (this.jobId !== jobId) return
+      this.pollDelay = Math.min(this.pollDelay * POLL_BACKOFF_FACTOR, POLL_MAX_DELAY)
+      this.schedulePoll(jobId, this.pollDelay)
+      return
+    }
+
+    // Stopped or replaced while the request was in flight
+    if (this.jobId !== jobId) return
+
+    if (!status) {
+      this.missedPolls++
+      if (this.missedPolls >= MAX_MISSED_POLLS) {
+        // Usually a job restored from storage that the backend has already forgotten
+        console.warn(`Refresh job ${jobId} is no longer known to the backend, stopped tracking`)
+        this.stop()
+        refreshStatusStore.clearRefreshJob()
+        return
+      }
+    } else {
+      this.missedPolls = 0
+      const changed = this.handleStatus(jobId, status)
+      if (this.jobId !== jobId) return
+      this.pollDelay = changed ? POLL_INITIAL_DELAY : Math.min(this.pollDelay * POLL_BACKOFF_FACTOR, POLL_MAX_DELAY)
+    }
+
+    this.schedulePoll(jobId, this.pollDelay)
+  }
+
+  // Returns whether the status differs from the previous update
+  private handleStatus(jobId: string, status: RefreshJobStatus): boolean {
+    if (this.jobId !== jobId || status.job_id !== jobId) return false
+
+    refreshStatusStore.setRefreshJob(status)
+
+    const fingerprint = `${status.status}|${status.updated_at}|${status.progress ?? ''}|${status.message}`
+    const changed = fingerprint !== this.lastFingerprint
+    if (changed) {
+      this.lastFingerprint = fingerprint
+      this.lastChangeAt = Date.now()
+    }
+
+    if (isJobFinished(status)) {
+      this.stop()
+      console.log(`🏁 Refresh job ${jobId} finished:`, status.status)
+      this.listeners.forEach(listener => listener(status))
+    } else if (Date.now() - this.lastChangeAt > STALL_TIMEOUT) {
+      this.stop()
+      // Otherwise the status would keep showing a running job that is no longer followed
+      refreshStatusStore.failJob('The background refresh stopped reporting progress')
+      errorService.report('The background refresh stopped reporting progress', ErrorSeverity.WARNING)
+    }
+
+    return changed
+  }
+}
+
+// Export singleton instance with proper typing
+export const refreshJobTracker = new RefreshJobTracker()
+
+export default refreshJobTracker
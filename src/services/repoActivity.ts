@@ -0,0 +1,76 @@
+// Repo Activity - all work in one repository, for the repository page
+// Repositories are addressed as /repos/:workspace/:name, which only works for "workspace/name"
+// repositories; imported activity without a workspace has no page.
+
+import { extractIssueId, splitRepo } from './activityUtils'
+import { getActivityTimestamp } from './activityCache'
+import { filtersFromQuery, filtersToQuery } from './routeQuery'
+
+import type { LocationQuery, RouteLocationRaw } from 'vue-router'
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { RepoActivitySummary, RepoBranchActivity, RepoTicketActivity } from '../types/repos'
+
+/**
+ * Link to a repository's page that keeps the filters of the current page; null for a
+ * repository without a workspace.
+ */
+export function getRepoLocation(repo: string, query: LocationQuery = {}): RouteLocationRaw | null {
+  const { workspace, name } = splitRepo(repo)
+  if (!workspace) return null
+  return { name: 'Repository', params: { workspace, name }, query: filtersToQuery(filtersFromQuery(query)) }
+}
+
+function latest(current: Date | null, time: number): Date | null {
+  if (!time) return current
+  return !current || time > current.getTime() ? new Date(time) : current
+}
+
+export function summarizeRepoActivity(allItems: ProcessedCommit[], repo: string): RepoActivitySummary {
+  const items = allItems
+    .filter(item => item.repo === repo)
+    .sort((a, b) => getActivityTimestamp(b) - getActivityTimestamp(a))
+
+  const branches = new Map<string, RepoBranchActivity>()
+  const tickets = new Map<string, RepoTicketActivity>()
+  const prStates: RepoActivitySummary['prStates'] = {}
+  let commits = 0
+
+  items.forEach(item => {
+    const time = getActivityTimestamp(item)
+
+    if (item.commit_hash) {
+      commits++
+      if (item.branch) {
+        const branch = branches.get(item.branch) || { branch: item.branch, commits: 0, last: null }
+        branch.commits++
+        branch.last = latest(branch.last, time)
+        branches.set(item.branch, branch)
+      }
+    } else if (item.pr_state) {
+      prStates[item.pr_state] = (prStates[item.pr_state] || 0) + 1
+    }
+
+    const key = extractIssueId(item)
+    if (key) {
+      const ticket = tickets.get(key) || { key, items: 0, last: null }
+      ticket.items++
+      ticket.last = latest(ticket.last, time)
+      tickets.set(key, ticket)
+    }
+  })
+
+  const byLast = (a: { last: Date | null }, b: { last: Date | null }) => (b.last?.getTime() || 0) - (a.last?.getTime() || 0)
+  const times = items.map(getActivityTimestamp).filter(Boolean) // Newest first, as the items are
+
+  return {
+    repo,
+    items,
+    commits,
+    prs: items.length - commits,
+    branches: [...branches.values()].sort(byLast),
+    tickets: [...tickets.values()].sort(byLast),
+    prStates,
+    first: times.length > 0 ? new Date(times[times.length - 1]) : null,
+    last: times.length > 0 ? new Date(times[0]) : null
+  }
+}
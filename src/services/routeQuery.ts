@@ -0,0 +1,138 @@
+// Route Query - keeps filters and page state in the URL
+// AppFilters are written to the query string of every page that shows activity, so a view
+// can be bookmarked, shared and restored with back/forward. Pages add their own state
+// (search text, sort, calendar view) through useQueryParam.
+
+import { computed, type WritableComputedRef } from 'vue'
+import { useRoute, useRouter, type LocationQuery, type LocationQueryRaw } from 'vue-router'
+import { DEFAULT_FILTERS, PR_STATES } from './activityFilters'
+
+import type { AppFilters, PrState } from '../types/bitbucket'
+
+const MAX_DATE_RANGE = 365
+const FILTER_TYPES: AppFilters['type'][] = ['all', 'commits', 'pullrequests']
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Query key per filter
+const FILTER_QUERY_KEYS = {
+  repos: 'repos',
+  dateRange: 'days',
+  startDate: 'from',
+  endDate: 'to',
+  authors: 'authors',
+  workspaces: 'workspaces',
+  type: 'type',
+  ticket: 'ticket',
+  branch: 'branch',
+  prStates: 'states'
+} as const satisfies Record<keyof AppFilters, string>
+
+function getQueryString(query: LocationQuery, key: string): string | null {
+  const value = query[key]
+  const first = Array.isArray(value) ? value[0] : value
+  return typeof first === 'string' ? first : null
+}
+
+function toList(value: string | null): string[] {
+  return value ? value.split(',').map(part => part.trim()).filter(Boolean) : []
+}
+
+/**
+ * Query parameters for the filters; values equal to the defaults are left out to keep links short.
+ */
+export function filtersToQuery(filters: AppFilters): LocationQueryRaw {
+  const query: LocationQueryRaw = {}
+  if (filters.repos.length > 0) query[FILTER_QUERY_KEYS.repos] = filters.repos.join(',')
+  if (filters.startDate) {
+    query[FILTER_QUERY_KEYS.startDate] = filters.startDate
+    if (filters.endDate) query[FILTER_QUERY_KEYS.endDate] = filters.endDate
+  } else if (filters.dateRange !== DEFAULT_FILTERS.dateRange) {
+    query[FILTER_QUERY_KEYS.dateRange] = String(filters.dateRange)
+  }
+  if (filters.authors.length > 0) query[FILTER_QUERY_KEYS.authors] = filters.authors.join(',')
+  if (filters.workspaces.length > 0) query[FILTER_QUERY_KEYS.workspaces] = filters.workspaces.join(',')
+  if (filters.type !== DEFAULT_FILTERS.type) query[FILTER_QUERY_KEYS.type] = filters.type
+  if (filters.ticket) query[FILTER_QUERY_KEYS.ticket] = filters.ticket
+  if (filters.branch) query[FILTER_QUERY_KEYS.branch] = filters.branch
+  if (filters.prStates.length > 0) query[FILTER_QUERY_KEYS.prStates] = filters.prStates.join(',')
+  return query
+}
+
+/**
+ * Reads the filters from a query string. Missing or invalid values fall back to the defaults.
+ */
+export function filtersFromQuery(query: LocationQuery): AppFilters {
+  const dateRange = parseInt(getQueryString(query, FILTER_QUERY_KEYS.dateRange) || '', 10)
+  const type = getQueryString(query, FILTER_QUERY_KEYS.type) as AppFilters['type'] | null
+  const dateKey = (key: string): string | null => {
+    const value = getQueryString(query, key)
+    return value && DATE_KEY_PATTERN.test(value) ? value : null
+  }
+  const startDate = dateKey(FILTER_QUERY_KEYS.startDate)
+
+  return {
+    repos: toList(getQueryString(query, FILTER_QUERY_KEYS.repos)),
+    dateRange: dateRange > 0 && dateRange <= MAX_DATE_RANGE ? dateRange : DEFAULT_FILTERS.dateRange,
+    startDate,
+    endDate: startDate ? dateKey(FILTER_QUERY_KEYS.endDate) : null,
+    authors: toList(getQueryString(query, FILTER_QUERY_KEYS.authors)),
+    workspaces: toList(getQueryString(query, FILTER_QUERY_KEYS.workspaces)),
+    type: type && FILTER_TYPES.includes(type) ? type : DEFAULT_FILTERS.type,
+    ticket: getQueryString(query, FILTER_QUERY_KEYS.ticket)?.trim() || '',
+    branch: getQueryString(query, FILTER_QUERY_KEYS.branch)?.trim() || '',
+    prStates: toList(getQueryString(query, FILTER_QUERY_KEYS.prStates))
+      .map(state => state.toUpperCase() as PrState)
+      .filter(state => PR_STATES.includes(state))
+  }
+}
+
+/**
+ * The current query with its filter parameters replaced, keeping page-specific parameters.
+ */
+export function withFilterQuery(query: LocationQuery, filters: AppFilters): LocationQueryRaw {
+  const filterKeys: string[] = Object.values(FILTER_QUERY_KEYS)
+  const pageQuery = Object.fromEntries(Object.entries(query).filter(([key]) => !filterKeys.includes(key)))
+  return { ...pageQuery, ...filtersToQuery(filters) }
+}
+
+interface QueryParamOptions<T> {
+  defaultValue: T
+  parse?: (value: string) => T | null // null falls back to the default
+  serialize?: (value: T) => string
+  replace?: boolean // Replace the history entry instead of adding one, e.g. while typing
+}
+
+/**
+ * A ref bound to one query parameter of the current route. The default value is not written to the URL.
+ * Must be called from a component's setup.
+ */
+export function useQueryParam<T = string>(key: string, options: QueryParamOptions<T>): WritableComputedRef<T> {
+  const route = useRoute()
+  const router = useRouter()
+  const parse = options.parse || ((value: string) => value as unknown as T)
+  const serialize = options.serialize || ((value: T) => String(value))
+
+  return computed({
+    get: (): T => {
+      const raw = getQueryString(route.query, key)
+      if (raw === null) return options.defaultValue
+      const parsed = parse(raw)
+      return parsed === null ? options.defaultValue : parsed
+    },
+    set: (value: T) => {
+      const query: LocationQueryRaw = { ...route.query }
+      const serialized = serialize(value)
+      if (value === options.defaultValue || serialized === '') {
+        delete query[key]
+      } else {
+        query[key] = serialized
+      }
+      const location = { query }
+      if (options.replace) {
+        router.replace(location)
+      } else {
+        router.push(location)
+      }
+    }
+  })
+}
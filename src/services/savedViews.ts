@@ -0,0 +1,168 @@
+// Saved Views - named filter combinations that open a page with the filters applied
+// A view stores the filters, the page and the Details sort. Views with a relative period
+// ("this week", "last month") get their dates when they are opened, so a view saved in
+// March still means last month in June. User views live in stores/savedViewStore.ts.
+
+import { DEFAULT_FILTERS, getMonthRange, getWeekRange } from './activityFilters'
+import { filtersFromQuery, filtersToQuery } from './routeQuery'
+
+import type { LocationQuery, RouteLocationRaw } from 'vue-router'
+import type { AppFilters } from '../types/bitbucket'
+import type { RelativePeriod, SavedView, SavedViewsExport, ViewPage } from '../types/views'
+
+export const VIEW_PAGES: { page: ViewPage; label: string }[] = [
+  { page: '/', label: 'Dashboard' },
+  { page: '/details', label: 'Details' },
+  { page: '/calendar', label: 'Calendar' },
+  { page: '/timesheet', label: 'Timesheet' }
+]
+
+export const RELATIVE_PERIODS: { period: RelativePeriod; label: string }[] = [
+  { period: 'this-week', label: 'This week' },
+  { period: 'this-month', label: 'This month' },
+  { period: 'last-month', label: 'Last month' }
+]
+
+export const BUILT_IN_VIEWS: SavedView[] = [
+  {
+    id: 'builtin-this-week',
+    name: 'This week',
+    page: '/',
+    filters: { ...DEFAULT_FILTERS },
+    period: 'this-week',
+    sort: null,
+    pinned: true,
+    builtIn: true
+  },
+  {
+    id: 'builtin-last-month',
+    name: 'Last month for invoicing',
+    page: '/timesheet',
+    filters: { ...DEFAULT_FILTERS },
+    period: 'last-month',
+    sort: null,
+    pinned: true,
+    builtIn: true
+  },
+  {
+    id: 'builtin-open-prs',
+    name: 'Open PRs',
+    page: '/details',
+    filters: { ...DEFAULT_FILTERS, dateRange: 30, type: 'pullrequests', prStates: ['OPEN'] },
+    period: null,
+    sort: '-date',
+    pinned: true,
+    builtIn: true
+  }
+]
+
+function getPeriodRange(period: RelativePeriod, now: Date): Pick<AppFilters, 'startDate' | 'endDate'> {
+  switch (period) {
+    case 'this-week':
+      return getWeekRange(now)
+    case 'this-month':
+      return getMonthRange(0, now)
+    case 'last-month':
+      return getMonthRange(-1, now)
+  }
+}
+
+/**
+ * The filters a view applies today.
+ */
+export function resolveViewFilters(view: SavedView, now: Date = new Date()): AppFilters {
+  const filters = { ...DEFAULT_FILTERS, ...view.filters }
+  return view.period ? { ...filters, ...getPeriodRange(view.period, now) } : filters
+}
+
+/**
+ * Where opening the view navigates to.
+ */
+export function getViewLocation(view: SavedView): RouteLocationRaw {
+  const query = filtersToQuery(resolveViewFilters(view))
+  if (view.sort && view.page === '/details') query.sort = view.sort
+  return { path: view.page, query }
+}
+
+export function serializeViews(views: SavedView[]): string {
+  const data: SavedViewsExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    views: views.filter(view => !view.builtIn)
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+const LIST_FILTERS = ['repos', 'authors', 'workspaces', 'prStates'] as const
+const TEXT_FILTERS = ['type', 'ticket', 'branch'] as const
+const DATE_FILTERS = ['startDate', 'endDate'] as const
+
+/**
+ * Filters of an imported view, or null when a field has the wrong type. Values of the right
+ * type go through the URL round trip, so they are checked exactly like filters from a link.
+ */
+function parseViewFilters(value: unknown): AppFilters | null {
+  if (value === undefined) return { ...DEFAULT_FILTERS }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const filters = value as Record<string, unknown>
+  const isStringList = (list: unknown): boolean => Array.isArray(list) && list.every(item => typeof item === 'string')
+  const isValid = LIST_FILTERS.every(key => filters[key] === undefined || isStringList(filters[key]))
+    && TEXT_FILTERS.every(key => filters[key] === undefined || typeof filters[key] === 'string')
+    && DATE_FILTERS.every(key => filters[key] === undefined || filters[key] === null || typeof filters[key] === 'string')
+    && (filters.dateRange === undefined || typeof filters.dateRange === 'number')
+  if (!isValid) return null
+
+  return filtersFromQuery(filtersToQuery({ ...DEFAULT_FILTERS, ...filters } as AppFilters) as LocationQuery)
+}
+
+/**
+ * Views from an exported file. Returns an empty list when the file is not a views export;
+ * entries without a name or with unreadable filters are skipped, and missing filters fall
+ * back to the defaults.
+ */
+export function parseViewsFile(content: string): SavedView[] {
+  let data: Partial<SavedViewsExport>
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return []
+  }
+  if (!data || !Array.isArray(data.views)) return []
+
+  const pages = VIEW_PAGES.map(({ page }) => page)
+  const periods = RELATIVE_PERIODS.map(({ period }) => period)
+
+  return data.views.flatMap((view, index): SavedView[] => {
+    if (!view || typeof view.name !== 'string' || !view.name.trim()) return []
+    const filters = parseViewFilters(view.filters)
+    if (!filters) return []
+
+    return [{
+      id: typeof view.id === 'string' && view.id ? view.id : `view-${Date.now().toString(36)}-${index}`,
+      name: view.name.trim(),
+      page: pages.includes(view.page) ? view.page : '/',
+      filters,
+      period: view.period && periods.includes(view.period) ? view.period : null,
+      sort: typeof view.sort === 'string' ? view.sort : null,
+      pinned: !!view.pinned
+    }]
+  })
+}
+
+/**
+ * Downloads the views as a JSON file for backup or sharing.
+ */
+export function downloadViews(views: SavedView[]): void {
+  const blob = new Blob([serializeViews(views)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `hours-views-${new Date().toISOString().split('T')[0]}.json`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
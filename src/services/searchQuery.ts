@@ -0,0 +1,326 @@
+// Search Query - the query language of the activity table search
+//   repo:api ticket:ASUITE-* type:pr state:open,merged branch:feature/* author:jane
+//   after:2026-09-01 before:2026-10-01 weekday:sat,sun hour:18-23
+//   "exact phrase" -word -repo:legacy
+// Values with * are wildcards; without, repo/branch/author match part of the value and
+// ticket a prefix of the key. weekday and hour take a value or a range in local time.
+// Free words match the start of a word in the title, message, repository, branch or ticket.
+// The index is built once per data set; searching then only looks at entries that contain
+// every free word; phrases are matched by scanning those entries.
+
+import { extractIssueId, getDisplayTitle } from './activityUtils'
+import { matchesWildcard } from './activityFilters'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type {
+  HighlightPart,
+  IndexedActivity,
+  ParsedSearchQuery,
+  SearchField,
+  SearchFieldFilter,
+  SearchIndex,
+  SearchTextTerm
+} from '../types/search'
+
+export const SEARCH_FIELDS: { field: SearchField; example: string }[] = [
+  { field: 'repo', example: 'repo:api' },
+  { field: 'ticket', example: 'ticket:ASUITE-*' },
+  { field: 'type', example: 'type:pr' },
+  { field: 'state', example: 'state:open' },
+  { field: 'branch', example: 'branch:feature/*' },
+  { field: 'author', example: 'author:jane' },
+  { field: 'after', example: 'after:2026-09-01' },
+  { field: 'before', example: 'before:2026-10-01' },
+  { field: 'weekday', example: 'weekday:mon-fri' },
+  { field: 'hour', example: 'hour:18-23' }
+]
+
+const FIELD_NAMES = SEARCH_FIELDS.map(({ field }) => field)
+const TYPE_VALUES = ['pr', 'commit']
+const STATE_VALUES = ['open', 'merged', 'declined', 'superseded']
+const WEEKDAY_VALUES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] // Date.getDay() order
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MAX_SUGGESTIONS = 8
+
+// Optional "-", optional "field:", then a "quoted value" or a bare one
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi
+const WORD_SPLIT = /[^\p{L}\p{N}]+/u
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().split(WORD_SPLIT).filter(Boolean)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function normalizeType(value: string): string {
+  const lower = value.toLowerCase()
+  if (['pr', 'prs', 'pullrequest', 'pullrequests', 'pull-request'].includes(lower)) return 'pr'
+  if (['commit', 'commits'].includes(lower)) return 'commit'
+  return lower
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: SearchFieldFilter[] = []
+  const terms: SearchTextTerm[] = []
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, fieldName, quoted, bare] = match
+    const negated = minus === '-'
+    const field = fieldName?.toLowerCase() as SearchField | undefined
+
+    if (field && FIELD_NAMES.includes(field)) {
+      const values = (quoted ?? bare ?? '').split(',').map(value => value.trim()).filter(Boolean)
+      if (values.length > 0) filters.push({ field, values, negated })
+    } else if (quoted !== undefined && !fieldName) {
+      if (quoted.trim()) terms.push({ text: quoted.trim().toLowerCase(), phrase: true, negated })
+    } else if (/^-?[a-z]+:$/i.test(raw) && FIELD_NAMES.includes(raw.replace(/^-|:$/g, '').toLowerCase() as SearchField)) {
+      continue // A field still being typed, e.g. "repo:"
+    } else {
+      // Unknown "field:" prefixes are just text, e.g. "fix:" in a commit message
+      const text = (negated ? raw.slice(1) : raw).toLowerCase()
+      if (text && text !== '-') terms.push({ text, phrase: false, negated })
+    }
+  }
+
+  return { filters, terms }
+}
+
+/**
+ * Prepares the searchable values of every item and a word index over their text.
+ */
+export function createSearchIndex(items: ProcessedCommit[]): SearchIndex {
+  const postings = new Map<string, number[]>()
+  const values = { repo: new Set<string>(), ticket: new Set<string>(), branch: new Set<string>(), author: new Set<string>() }
+
+  const entries: IndexedActivity[] = items.map((item, position) => {
+    const ticket = extractIssueId(item)
+    const author = item.pr_author_display_name || item.commit_author_raw?.replace(/\s*<[^>]*>\s*$/, '') || ''
+    const text = [getDisplayTitle(item), item.commit_message, item.pr, item.repo, item.branch, ticket]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase()
+
+    new Set(toWords(text)).forEach(word => {
+      if (!postings.has(word)) postings.set(word, [])
+      postings.get(word)!.push(position)
+    })
+
+    const date = new Date(item.commit_date || item.pr_updated_on || '')
+    const time = date.getTime()
+
+    if (item.repo) values.repo.add(item.repo)
+    if (ticket) values.ticket.add(ticket)
+    if (item.branch) values.branch.add(item.branch)
+    if (author) values.author.add(author)
+
+    return {
+      item,
+      repo: (item.repo || '').toLowerCase(),
+      ticket: ticket ? ticket.toUpperCase() : null,
+      branch: item.branch || null,
+      author: [author, item.commit_author_raw, item.author_username].filter(Boolean).join(' ').toLowerCase(),
+      type: item.commit_hash ? 'commit' : 'pr',
+      state: (item.pr_state || '').toLowerCase(),
+      time,
+      weekday: Number.isNaN(time) ? -1 : date.getDay(),
+      hour: Number.isNaN(time) ? -1 : date.getHours(),
+      text
+    }
+  })
+
+  return {
+    entries,
+    tokens: [...postings.keys()].sort(),
+    postings,
+    values: {
+      repo: [...values.repo].sort(),
+      ticket: [...values.ticket].sort(),
+      branch: [...values.branch].sort(),
+      author: [...values.author].sort()
+    }
+  }
+}
+
+// Positions of entries with a word starting with `prefix`, found by binary search in the sorted tokens
+function findPrefixPositions(index: SearchIndex, prefix: string): Set<number> {
+  let low = 0
+  let high = index.tokens.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (index.tokens[mid] < prefix) low = mid + 1
+    else high = mid
+  }
+
+  const positions = new Set<number>()
+  for (let i = low; i < index.tokens.length && index.tokens[i].startsWith(prefix); i++) {
+    index.postings.get(index.tokens[i])!.forEach(position => positions.add(position))
+  }
+  return positions
+}
+
+function parseDay(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
+
+// "mon" or "monday"; anything else, such as "monkey", is unreadable
+function parseWeekday(value: string): number | null {
+  const lower = value.toLowerCase()
+  const position = lower.length === 3 ? WEEKDAY_VALUES.indexOf(lower) : WEEKDAY_NAMES.indexOf(lower)
+  return position === -1 ? null : position
+}
+
+function parseHour(value: string): number | null {
+  if (!/^\d{1,2}$/.test(value)) return null
+  const hour = Number(value)
+  return hour < 24 ? hour : null
+}
+
+// "mon", "mon-fri" or "fri-mon" (wrapping round); an unreadable value matches everything
+function matchesRange(actual: number, value: string, parse: (part: string) => number | null): boolean {
+  const [from, to = from] = value.split('-').map(parse)
+  if (from === null || to === null) return true
+  if (actual === -1) return false
+  return from <= to ? actual >= from && actual <= to : actual >= from || actual <= to
+}
+
+function matchesValue(entry: IndexedActivity, field: SearchField, value: string): boolean {
+  const lower = value.toLowerCase()
+  switch (field) {
+    case 'repo':
+      return value.includes('*') ? matchesWildcard(entry.repo, value) : entry.repo.includes(lower)
+    case 'ticket':
+      if (!entry.ticket) return false
+      return value.includes('*') ? matchesWildcard(entry.ticket, value) : entry.ticket.startsWith(value.toUpperCase())
+    case 'branch':
+      if (!entry.branch) return false
+      return value.includes('*') ? matchesWildcard(entry.branch, value) : entry.branch.toLowerCase().includes(lower)
+    case 'author':
+      return value.includes('*') ? matchesWildcard(entry.author, value) : entry.author.includes(lower)
+    case 'type':
+      return entry.type === normalizeType(value)
+    case 'state':
+      return entry.state === lower
+    case 'after': {
+      const day = parseDay(value)
+      return day === null || entry.time >= day
+    }
+    case 'before': {
+      const day = parseDay(value)
+      return day === null || entry.time < day
+    }
+    case 'weekday':
+      return matchesRange(entry.weekday, value, parseWeekday)
+    case 'hour':
+      return matchesRange(entry.hour, value, parseHour)
+  }
+}
+
+// Free words must start a word; phrases may appear anywhere
+function createTermMatcher(term: SearchTextTerm): (entry: IndexedActivity) => boolean {
+  if (term.phrase) return entry => entry.text.includes(term.text)
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term.text)}`, 'u')
+  return entry => pattern.test(entry.text)
+}
+
+/**
+ * The items matching the query, in index order.
+ */
+export function searchActivity(index: SearchIndex, query: ParsedSearchQuery): ProcessedCommit[] {
+  if (query.filters.length === 0 && query.terms.length === 0) {
+    return index.entries.map(entry => entry.item)
+  }
+
+  // Narrow down to entries that contain the first word of every positive free word. Phrases may
+  // start mid-word, which the word-prefix index cannot find, so they are only scanned below
+  let positions: number[] = index.entries.map((_entry, position) => position)
+  query.terms.filter(term => !term.negated && !term.phrase).forEach(term => {
+    const firstWord = toWords(term.text)[0]
+    if (!firstWord) return
+    const withWord = findPrefixPositions(index, firstWord)
+    positions = positions.filter(position => withWord.has(position))
+  })
+
+  const termMatchers = query.terms.map(term => ({ matches: createTermMatcher(term), negated: term.negated }))
+
+  return positions
+    .map(position => index.entries[position])
+    .filter(entry => query.filters.every(filter => {
+      const matches = filter.values.some(value => matchesValue(entry, filter.field, value))
+      return filter.negated ? !matches : matches
+    }))
+    .filter(entry => termMatchers.every(({ matches, negated }) => matches(entry) !== negated))
+    .map(entry => entry.item)
+}
+
+/**
+ * Splits text around the query's positive words and phrases, for <mark> highlighting.
+ */
+export function getHighlightParts(text: string | null | undefined, query: ParsedSearchQuery): HighlightPart[] {
+  if (!text) return []
+  const terms = query.terms.filter(term => !term.negated)
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const source = terms
+    .map(term => term.phrase ? escapeRegExp(term.text) : `(?<![\\p{L}\\p{N}])${escapeRegExp(term.text)}`)
+    .join('|')
+  const pattern = new RegExp(source, 'giu')
+
+  const parts: HighlightPart[] = []
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) continue
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index), match: false })
+    parts.push({ text: match[0], match: true })
+    last = match.index! + match[0].length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false })
+  return parts
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+/**
+ * Completions for the last token of the input: field names, then known repos, tickets,
+ * branches and authors, or the fixed type and state values.
+ */
+export function getSearchSuggestions(input: string, index: SearchIndex): string[] {
+  const token = input.match(/(\S*)$/)?.[1] || ''
+  if (!token) return []
+
+  const negation = token.startsWith('-') ? '-' : ''
+  const body = token.slice(negation.length)
+  const separator = body.indexOf(':')
+
+  if (separator === -1) {
+    return FIELD_NAMES
+      .filter(field => field.startsWith(body.toLowerCase()) && field !== body.toLowerCase())
+      .map(field => `${negation}${field}:`)
+  }
+
+  const field = body.slice(0, separator).toLowerCase() as SearchField
+  const partial = body.slice(separator + 1).replace(/^"/, '').toLowerCase()
+  let known: string[] = []
+  if (field === 'type') known = TYPE_VALUES
+  else if (field === 'state') known = STATE_VALUES
+  else if (field === 'weekday') known = [...WEEKDAY_VALUES.slice(1), WEEKDAY_VALUES[0]]
+  else if (field === 'repo' || field === 'ticket' || field === 'branch' || field === 'author') known = index.values[field]
+
+  const matching = known.filter(value => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+  // Values starting with what was typed come first
+  matching.sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+  return matching.slice(0, MAX_SUGGESTIONS).map(value => `${negation}${field}:${quoteValue(value)}`)
+}
+
+/**
+ * Replaces the last token of the input with a suggestion.
+ */
+export function applySearchSuggestion(input: string, suggestion: string): string {
+  const completed = input.replace(/\S*$/, suggestion)
+  return suggestion.endsWith(':') ? completed : `${completed} `
+}
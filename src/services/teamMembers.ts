@@ -0,0 +1,160 @@
+// Team Members - the roster used in team mode and matching of activity to its author
+// The roster is you (from the profile and provider usernames) plus the teammates
+// edited in Settings (see stores/teamStore.ts). Views filter and break down activity per author
+// through resolveAuthorId; providers fetch every teammate's activity next to yours.
+
+import { computed } from 'vue'
+import { extractIssueId } from './activityUtils'
+import { MEMBER_COLORS, useTeam } from '../stores/teamStore'
+import { parseAuthorAlias, profileEmails, userProfile } from '../stores/profileStore'
+import { useProviderConnections } from '../stores/providerStore'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { ProviderType } from '../types/providers'
+import type { AuthorMetrics, TeamMember } from '../types/team'
+
+export const SELF_MEMBER_ID = 'me'
+export const OTHER_AUTHOR_ID = 'other'
+
+const team = useTeam()
+const providerConnections = useProviderConnections()
+
+const selfMember = computed((): TeamMember => {
+  const accounts: Partial<Record<ProviderType, string>> = { bitbucket: userProfile.username || profileEmails.value[0] }
+
+  providerConnections.connections.forEach(connection => {
+    if (connection.username && !accounts[connection.type]) {
+      accounts[connection.type] = connection.username
+    }
+  })
+
+  return {
+    id: SELF_MEMBER_ID,
+    name: userProfile.displayName,
+    color: MEMBER_COLORS[0],
+    emails: profileEmails.value,
+    accounts
+  }
+})
+
+/**
+ * You first, then the teammates from Settings.
+ */
+export const teamMembers = computed((): TeamMember[] => [selfMember.value, ...getTeammates()])
+
+export function getTeammates(): TeamMember[] {
+  return team.members.filter(member => member.name.trim() || member.emails.length > 0 || Object.values(member.accounts).some(Boolean))
+}
+
+export function isTeamMode(): boolean {
+  return getTeammates().length > 0
+}
+
+// Lower-cased identity -> member id, rebuilt when the roster changes
+const identityIndex = computed((): Map<string, string> => {
+  const index = new Map<string, string>()
+
+  teamMembers.value.forEach(member => {
+    const identities = [member.name, ...member.emails, ...Object.values(member.accounts)]
+    if (member.id === SELF_MEMBER_ID) {
+      identities.push(userProfile.username, ...userProfile.aliases, ...userProfile.aliases.flatMap(parseAuthorAlias))
+    }
+    identities
+      .filter((identity): identity is string => !!identity && !!identity.trim())
+      .forEach(identity => {
+        const key = identity.trim().toLowerCase()
+        // Earlier members win, so you keep identities a teammate entry repeats
+        if (!index.has(key)) index.set(key, member.id)
+      })
+  })
+
+  return index
+})
+
+const resolvedCache: WeakMap<ProcessedCommit, { index: Map<string, string>; memberId: string | null }> = new WeakMap()
+
+/**
+ * Id of the team member who authored an item, or null when nobody on the roster matches.
+ * Checks the login the item was fetched for, the commit author name and email, and the PR author.
+ */
+export function resolveAuthorId(item: ProcessedCommit): string | null {
+  const index = identityIndex.value
+  const cached = resolvedCache.get(item)
+  if (cached && cached.index === index) return cached.memberId
+
+  const candidates = [
+    item.author_username,
+    item.commit_author_raw,
+    ...parseAuthorAlias(item.commit_author_raw),
+    item.pr_author_display_name
+  ]
+  const memberId = candidates
+    .map(candidate => candidate ? index.get(candidate.trim().toLowerCase()) : undefined)
+    .find((id): id is string => !!id) || null
+
+  resolvedCache.set(item, { index, memberId })
+  return memberId
+}
+
+/**
+ * Author of an item for per-person calculations such as work sessions. Outside team mode only
+ * your activity is fetched, so every item is yours even when no identity matches.
+ */
+export function getItemAuthorId(item: ProcessedCommit): string {
+  if (!isTeamMode()) return SELF_MEMBER_ID
+  return resolveAuthorId(item) || OTHER_AUTHOR_ID
+}
+
+export function isOwnActivity(item: ProcessedCommit): boolean {
+  return getItemAuthorId(item) === SELF_MEMBER_ID
+}
+
+export function getMember(id: string): TeamMember | null {
+  return teamMembers.value.find(member => member.id === id) || null
+}
+
+/**
+ * Keeps the items of the selected authors; an empty selection keeps everything.
+ */
+export function filterByAuthors(items: ProcessedCommit[], authorIds: string[]): ProcessedCommit[] {
+  if (!authorIds || authorIds.length === 0) return items
+  const selected = new Set(authorIds)
+  return items.filter(item => selected.has(resolveAuthorId(item) || OTHER_AUTHOR_ID))
+}
+
+/**
+ * Groups items per author, in roster order. Activity nobody matches goes to an "Other" group.
+ */
+export function groupByAuthor(items: ProcessedCommit[]): { member: Pick<TeamMember, 'id' | 'name' | 'color'>; items: ProcessedCommit[] }[] {
+  const groups: Map<string, ProcessedCommit[]> = new Map()
+  items.forEach(item => {
+    const id = resolveAuthorId(item) || OTHER_AUTHOR_ID
+    const group = groups.get(id)
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(id, [item])
+    }
+  })
+
+  const members: Pick<TeamMember, 'id' | 'name' | 'color'>[] = [
+    ...teamMembers.value,
+    { id: OTHER_AUTHOR_ID, name: 'Other', color: '#94A3B8' }
+  ]
+
+  return members
+    .filter(member => groups.has(member.id))
+    .map(member => ({ member, items: groups.get(member.id) || [] }))
+}
+
+export function buildAuthorMetrics(items: ProcessedCommit[]): AuthorMetrics[] {
+  return groupByAuthor(items).map(({ member, items: authored }) => ({
+    authorId: member.id,
+    name: member.name || 'Unnamed',
+    color: member.color,
+    commits: authored.filter(item => item.commit_hash).length,
+    prs: authored.filter(item => !item.commit_hash).length,
+    tickets: new Set(authored.map(extractIssueId).filter(Boolean)).size,
+    repos: new Set(authored.map(item => item.repo)).size
+  }))
+}
@@ -0,0 +1,106 @@
+// Ticket Activity - all work on one ticket, across repositories and branches
+// An item belongs to a ticket when the ticket patterns resolve it to that key, or when its
+// commit message, PR title or branch mentions the key. Effort comes from the same work
+// sessions as the Timesheet, so both pages agree on the hours; in team mode it is computed
+// per author and then summed.
+
+import { extractIssueId } from './activityUtils'
+import { getActivityKey, getActivityTimestamp } from './activityCache'
+import { buildWorkSessions } from './timesheetUtils'
+import { filtersFromQuery, filtersToQuery } from './routeQuery'
+
+import type { LocationQuery, RouteLocationRaw } from 'vue-router'
+import type { ProcessedCommit, TimesheetSettings } from '../types/bitbucket'
+import type { TicketActivitySummary } from '../types/tickets'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Link to a ticket's page that keeps the filters of the current page, but not its own state
+ * such as the search text.
+ */
+export function getTicketLocation(key: string, query: LocationQuery = {}): RouteLocationRaw {
+  return { name: 'Ticket', params: { key }, query: filtersToQuery(filtersFromQuery(query)) }
+}
+
+/**
+ * Commits and PRs on the ticket, oldest first. Duplicates of a commit (e.g. fetched for two
+ * branches) are listed once.
+ */
+export function getTicketActivity(items: ProcessedCommit[], key: string): ProcessedCommit[] {
+  const ticket = key.toUpperCase()
+  const mention = new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(key)}($|[^0-9])`, 'i')
+  const seen = new Set<string>()
+
+  return items
+    .filter(item => {
+      if (extractIssueId(item)?.toUpperCase() === ticket) return true
+      return [item.commit_message, item.pr, item.branch].some(text => text && mention.test(text))
+    })
+    .filter(item => {
+      const activityKey = getActivityKey(item)
+      if (seen.has(activityKey)) return false
+      seen.add(activityKey)
+      return true
+    })
+    .sort((a, b) => getActivityTimestamp(a) - getActivityTimestamp(b))
+}
+
+/**
+ * Totals for the ticket page. `allItems` is every loaded item: sessions are built from all
+ * commits, so time handed over between tickets is split the same way as on the Timesheet.
+ */
+export function summarizeTicketActivity(
+  allItems: ProcessedCommit[],
+  key: string,
+  settings: TimesheetSettings
+): TicketActivitySummary {
+  const items = getTicketActivity(allItems, key)
+  const repos = new Map<string, { repo: string; commits: number; prs: number }>()
+  const branches = new Set<string>()
+  const prStates: TicketActivitySummary['prStates'] = {}
+
+  // Branches of duplicate commits count too, which is why they come from allItems
+  const keys = new Set(items.map(getActivityKey))
+  allItems.forEach(item => {
+    if (item.branch && keys.has(getActivityKey(item))) branches.add(item.branch)
+  })
+
+  items.forEach(item => {
+    const entry = repos.get(item.repo) || { repo: item.repo, commits: 0, prs: 0 }
+    if (item.commit_hash) {
+      entry.commits++
+    } else {
+      entry.prs++
+      if (item.pr_state) prStates[item.pr_state] = (prStates[item.pr_state] || 0) + 1
+    }
+    repos.set(item.repo, entry)
+  })
+
+  const ticket = key.toUpperCase()
+  const sessions = buildWorkSessions(allItems, settings).filter(session => session.ticket?.toUpperCase() === ticket)
+  const times = items.map(getActivityTimestamp).filter(Boolean) // Sorted, as the items are
+  const effort = new Map<string, number>()
+  sessions.forEach(session => effort.set(session.authorId, (effort.get(session.authorId) || 0) + session.durationMinutes))
+  const effortByAuthor = [...effort.entries()]
+    .map(([authorId, minutes]) => ({ authorId, minutes }))
+    .sort((a, b) => b.minutes - a.minutes)
+  const commits = items.filter(item => item.commit_hash).length
+
+  return {
+    key,
+    items,
+    commits,
+    prs: items.length - commits,
+    repos: [...repos.values()].sort((a, b) => (b.commits + b.prs) - (a.commits + a.prs)),
+    branches: [...branches].sort(),
+    prStates,
+    first: times.length > 0 ? new Date(times[0]) : null,
+    last: times.length > 0 ? new Date(times[times.length - 1]) : null,
+    effortMinutes: effortByAuthor.reduce((sum, author) => sum + author.minutes, 0),
+    effortByAuthor,
+    sessions: sessions.length
+  }
+}
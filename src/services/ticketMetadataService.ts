@@ -0,0 +1,257 @@
+// Ticket Metadata Service - summary, status and epic for ticket keys
+// Resolves keys against a Jira-compatible REST API configured in Settings. Lookups made while
+// rendering are collected into batches, each fetched with one `key in (...)` query on
+// GET /rest/api/3/search/jql. An unknown key makes Jira reject the whole query, so such a batch
+// falls back to GET /rest/api/2/issue/{key} per key. Results are cached in localStorage.
+// For development, `npm run mock:tracker` serves the same API with generated tickets.
+
+import { watch } from 'vue'
+import { httpClient } from './httpClient'
+import { ApiError } from '../types/errors'
+import { errorService, ErrorSeverity } from './errorService'
+import { createPersistedState } from '../stores/persistedState'
+import { issueTrackerSettings } from '../stores/issueTrackerStore'
+
+import type { TicketMetadata, TicketStatusCategory } from '../types/tickets'
+
+interface JiraIssueType {
+  name: string;
+  hierarchyLevel?: number;
+}
+
+interface JiraIssue {
+  id: string;
+  key: string;
+  fields: {
+    summary: string;
+    status?: { name: string; statusCategory?: { key: string } };
+    issuetype?: JiraIssueType;
+    parent?: { key: string; fields?: { summary?: string; issuetype?: JiraIssueType } };
+  };
+}
+
+interface JiraSearchResponse {
+  issues: JiraIssue[];
+}
+
+interface CachedTicket {
+  data: TicketMetadata | null; // null: the tracker does not know this key
+  fetchedAt: number;
+}
+
+const TICKET_METADATA_KEY = 'hours_ticket_metadata'
+const FOUND_TTL = 6 * 60 * 60 * 1000
+const NOT_FOUND_TTL = 60 * 60 * 1000
+const BATCH_DELAY = 50
+const BATCH_SIZE = 50
+// Per-key lookups in flight at once, when a batch falls back to them
+const CONCURRENT_LOOKUPS = 6
+const ISSUE_FIELDS = 'summary,status,issuetype,parent'
+// Only Jira-style keys can be looked up; "#42" references stay bare
+const LOOKUP_KEY = /^[A-Z][A-Z0-9]+-\d+$/
+
+const STATUS_CATEGORIES: Record<string, TicketStatusCategory> = {
+  new: 'todo',
+  indeterminate: 'in_progress',
+  done: 'done'
+}
+
+function isEpic(issueType: JiraIssueType | undefined): boolean {
+  return !!issueType && (issueType.name.toLowerCase() === 'epic' || (issueType.hierarchyLevel ?? 0) >= 1)
+}
+
+function toMetadata(issue: JiraIssue): TicketMetadata {
+  const { fields } = issue
+  const parent = fields.parent
+
+  return {
+    key: issue.key,
+    id: issue.id,
+    summary: fields.summary,
+    status: fields.status?.name || 'Unknown',
+    statusCategory: STATUS_CATEGORIES[fields.status?.statusCategory?.key || ''] || null,
+    issueType: fields.issuetype?.name || null,
+    epic: parent && isEpic(parent.fields?.issuetype)
+      ? { key: parent.key, summary: parent.fields?.summary || parent.key }
+      : null
+  }
+}
+
+class TicketMetadataService {
+  private cache = createPersistedState<{ tickets: Record<string, CachedTicket> }>(TICKET_METADATA_KEY, { tickets: {} })
+  private queue: Set<string> = new Set()
+  private pending: Set<string> = new Set()
+  // Keys whose lookup failed this session; retried after the settings change
+  private failed: Set<string> = new Set()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private errorReported = false
+
+  constructor() {
+    watch(
+      () => ({ ...issueTrackerSettings }),
+      () => {
+        this.failed.clear()
+        this.errorReported = false
+      }
+    )
+  }
+
+  get isEnabled(): boolean {
+    return issueTrackerSettings.enabled && !!issueTrackerSettings.baseUrl
+  }
+
+  /**
+   * Cached metadata for a key. Unknown or expired keys are queued and looked up together in
+   * the next batch request; components re-render when the result arrives.
+   */
+  getTicket(key: string | null | undefined): TicketMetadata | null {
+    if (!key || !this.isEnabled || !LOOKUP_KEY.test(key)) return null
+
+    const cached = this.cache.tickets[key]
+    if (!cached || this.isExpired(cached)) {
+      this.enqueue(key)
+    }
+    return cached?.data || null
+  }
+
+  /**
+   * Queues keys ahead of rendering, e.g. for every ticket on the current page.
+   */
+  prefetch(keys: (string | null | undefined)[]): void {
+    keys.forEach(key => this.getTicket(key))
+  }
+
+  /**
+   * Jira's numeric id for a key, which Tempo needs instead of the key. Served from the cache
+   * when possible; null when the tracker is not configured or does not know the key.
+   */
+  async getIssueId(key: string): Promise<string | null> {
+    if (!this.isEnabled || !LOOKUP_KEY.test(key)) return null
+
+    const cached = this.cache.tickets[key]?.data
+    if (cached?.id) return cached.id
+
+    const issue = await this.fetchIssue(key)
+    this.cache.tickets = {
+      ...this.cache.tickets,
+      [key]: { data: issue ? toMetadata(issue) : null, fetchedAt: Date.now() }
+    }
+    return issue?.id || null
+  }
+
+  /**
+   * Link to the issue in the tracker, or null while no tracker URL is configured.
+   */
+  getIssueUrl(key: string): string | null {
+    if (!issueTrackerSettings.baseUrl) return null
+    return `${issueTrackerSettings.baseUrl.replace(/\/$/, '')}/browse/${key}`
+  }
+
+  clearCache(): void {
+    this.cache.tickets = {}
+    this.failed.clear()
+    console.log('🎫 Ticket metadata cache cleared')
+  }
+
+  private isExpired(cached: CachedTicket): boolean {
+    const ttl = cached.data ? FOUND_TTL : NOT_FOUND_TTL
+    return Date.now() - cached.fetchedAt > ttl
+  }
+
+  private enqueue(key: string): void {
+    if (this.pending.has(key) || this.failed.has(key)) return
+
+    this.queue.add(key)
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), BATCH_DELAY)
+    }
+  }
+
+  private async flush(): Promise<void> {
+    this.flushTimer = null
+    const keys = [...this.queue]
+    this.queue.clear()
+
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      await this.fetchBatch(keys.slice(i, i + BATCH_SIZE))
+    }
+  }
+
+  private async fetchBatch(keys: string[]): Promise<void> {
+    keys.forEach(key => this.pending.add(key))
+    console.log(`🎫 Looking up ${keys.length} tickets`)
+
+    try {
+      const issues = await this.searchIssues(keys)
+      const now = Date.now()
+      const found = new Map(issues.map(issue => [issue.key, toMetadata(issue)]))
+
+      // Keys that were not returned are remembered as unknown, so they are not requested on every render
+      const tickets = { ...this.cache.tickets }
+      keys.forEach(key => {
+        tickets[key] = { data: found.get(key) || null, fetchedAt: now }
+      })
+      this.cache.tickets = tickets
+    } catch (error) {
+      keys.forEach(key => this.failed.add(key))
+      if (!this.errorReported) {
+        this.errorReported = true
+        errorService.report(error, ErrorSeverity.WARNING, 'Could not load ticket details from the issue tracker')
+      }
+    } finally {
+      keys.forEach(key => this.pending.delete(key))
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {}
+    if (issueTrackerSettings.email && issueTrackerSettings.apiToken) {
+      headers['Authorization'] = `Basic ${btoa(`${issueTrackerSettings.email}:${issueTrackerSettings.apiToken}`)}`
+    } else if (issueTrackerSettings.apiToken) {
+      headers['Authorization'] = `Bearer ${issueTrackerSettings.apiToken}`
+    }
+    return headers
+  }
+
+  // The issues the tracker knows among `keys`, in one request unless a key is unknown
+  private async searchIssues(keys: string[]): Promise<JiraIssue[]> {
+    const baseUrl = issueTrackerSettings.baseUrl.replace(/\/$/, '')
+    const params = new URLSearchParams({
+      jql: `key in (${keys.join(',')})`,
+      fields: ISSUE_FIELDS,
+      maxResults: String(keys.length)
+    })
+
+    try {
+      const response = await httpClient.get<JiraSearchResponse>(`${baseUrl}/rest/api/3/search/jql?${params.toString()}`, { headers: this.getHeaders() })
+      return response.issues || []
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 400)) throw error
+    }
+
+    // Jira answers 400 when any key does not exist, so find out key by key which ones do
+    const issues: (JiraIssue | null)[] = []
+    for (let i = 0; i < keys.length; i += CONCURRENT_LOOKUPS) {
+      issues.push(...await Promise.all(keys.slice(i, i + CONCURRENT_LOOKUPS).map(key => this.fetchIssue(key))))
+    }
+    return issues.filter((issue): issue is JiraIssue => issue !== null)
+  }
+
+  // null when the tracker does not know the key (or it is hidden from this account)
+  private async fetchIssue(key: string): Promise<JiraIssue | null> {
+    const baseUrl = issueTrackerSettings.baseUrl.replace(/\/$/, '')
+    const params = new URLSearchParams({ fields: ISSUE_FIELDS })
+
+    try {
+      return await httpClient.get<JiraIssue>(`${baseUrl}/rest/api/2/issue/${encodeURIComponent(key)}?${params.toString()}`, { headers: this.getHeaders() })
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null
+      throw error
+    }
+  }
+}
+
+// Export singleton instance with proper typing
+export const ticketMetadataService = new TicketMetadataService()
+
+export default ticketMetadataService
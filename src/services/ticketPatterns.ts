@@ -0,0 +1,151 @@
+// Ticket Patterns - the single place where ticket references are recognised
+// Patterns and per-repository project keys are edited in Settings (see stores/ticketPatternStore.ts).
+// Views resolve tickets through resolveTicket / extractIssueId, the backend service through getPrimaryTicket.
+
+import { computed } from 'vue'
+import { ticketPatternSettings } from '../stores/ticketPatternStore'
+
+import type { ProcessedCommit } from '../types/bitbucket'
+import type {
+  ResolvedTicket,
+  TicketMatch,
+  TicketPattern,
+  TicketPatternSettings,
+  TicketSource
+} from '../types/tickets'
+
+interface CompiledPattern {
+  pattern: TicketPattern;
+  regex: RegExp;
+}
+
+interface CompiledSettings {
+  patterns: CompiledPattern[];
+  projectKeys: Map<string, string>;
+}
+
+/**
+ * Returns an error message when the pattern is not a valid regular expression.
+ */
+export function validatePattern(source: string, caseSensitive: boolean = true): string | null {
+  if (!source.trim()) return 'Pattern is empty'
+  try {
+    new RegExp(source, caseSensitive ? 'g' : 'gi')
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+}
+
+function compile(settings: TicketPatternSettings): CompiledSettings {
+  const patterns = settings.patterns
+    .filter(pattern => pattern.enabled && validatePattern(pattern.pattern, pattern.caseSensitive) === null)
+    .map(pattern => ({
+      pattern: { ...pattern },
+      regex: new RegExp(pattern.pattern, pattern.caseSensitive ? 'g' : 'gi')
+    }))
+    .sort((a, b) => b.pattern.priority - a.pattern.priority)
+
+  const projectKeys = new Map(
+    settings.repoProjectKeys
+      .filter(entry => entry.repo.trim() && entry.projectKey.trim())
+      .map(entry => [entry.repo.trim().toLowerCase(), entry.projectKey.trim().toUpperCase()])
+  )
+
+  return { patterns, projectKeys }
+}
+
+// Recompiled only when the settings change; reading it inside a component makes the view
+// re-render after an edit in Settings
+const compiledSettings = computed(() => compile(ticketPatternSettings))
+
+/**
+ * Project key configured for a repository, matched on "workspace/name" or just the name.
+ */
+export function getProjectKey(repo: string | null | undefined, settings: CompiledSettings = compiledSettings.value): string | null {
+  if (!repo) return null
+  const normalized = repo.toLowerCase()
+  const name = normalized.split('/').pop() || normalized
+  return settings.projectKeys.get(normalized) || settings.projectKeys.get(name) || null
+}
+
+// "abc-12" -> "ABC-12"; bare numbers only count when written as "#12" or when the repo has a project key
+function normalizeTicket(raw: string, projectKey: string | null): string | null {
+  const value = raw.trim()
+  const number = value.match(/^#?(\d+)$/)
+
+  if (!number) return value.toUpperCase()
+  if (projectKey) return `${projectKey}-${number[1]}`
+  return value.startsWith('#') ? value : null
+}
+
+function findTicketsWith(text: string, repo: string | null, settings: CompiledSettings): TicketMatch[] {
+  if (!text) return []
+
+  const projectKey = getProjectKey(repo, settings)
+  const matches: TicketMatch[] = []
+
+  settings.patterns.forEach(({ pattern, regex }) => {
+    for (const match of text.matchAll(regex)) {
+      const raw = match[1] ?? match[0]
+      const ticket = normalizeTicket(raw, projectKey)
+      if (!ticket || matches.some(existing => existing.ticket === ticket)) continue
+
+      matches.push({
+        ticket,
+        raw,
+        patternId: pattern.id,
+        priority: pattern.priority,
+        index: match.index ?? 0
+      })
+    }
+  })
+
+  // Highest priority first, then the earliest occurrence
+  return matches.sort((a, b) => b.priority - a.priority || a.index - b.index)
+}
+
+/**
+ * All ticket references in a piece of text, best match first.
+ * Pass `settings` to test unsaved patterns (the Settings preview does this).
+ */
+export function findTickets(text: string, repo: string | null = null, settings?: TicketPatternSettings): TicketMatch[] {
+  return findTicketsWith(text, repo, settings ? compile(settings) : compiledSettings.value)
+}
+
+export function getPrimaryTicket(text: string, repo: string | null = null): string | null {
+  return findTickets(text, repo)[0]?.ticket || null
+}
+
+const resolvedCache: WeakMap<ProcessedCommit, { settings: CompiledSettings; resolved: ResolvedTicket | null }> = new WeakMap()
+
+/**
+ * Resolves the ticket of an activity item from its branch name and commit message or PR title.
+ * Falls back to the ticket the backend detected (for example one inherited from the pull request).
+ */
+export function resolveTicket(item: ProcessedCommit): ResolvedTicket | null {
+  const settings = compiledSettings.value
+  const cached = resolvedCache.get(item)
+  if (cached && cached.settings === settings) return cached.resolved
+
+  const candidates: { text: string | null | undefined; source: TicketSource }[] = [
+    { text: item.branch, source: 'branch' },
+    { text: item.commit_hash ? item.commit_message : item.pr, source: item.commit_hash ? 'commit message' : 'PR title' }
+  ]
+
+  // Priority decides across sources; on a tie the branch wins over the message
+  const best = candidates
+    .flatMap(({ text, source }, order) => findTicketsWith(text || '', item.repo, settings).map(match => ({ match, source, order })))
+    .sort((a, b) => b.match.priority - a.match.priority || a.order - b.order || a.match.index - b.match.index)[0]
+
+  let resolved: ResolvedTicket | null = best
+    ? { ticket: best.match.ticket, source: best.source, patternId: best.match.patternId }
+    : null
+
+  if (!resolved && item.ticket) {
+    resolved = { ticket: item.ticket, source: 'backend', patternId: null }
+  }
+
+  resolvedCache.set(item, { settings, resolved })
+  return resolved
+}
@@ -0,0 +1,132 @@
+import { extractIssueId } from './activityUtils'
+import { getItemAuthorId } from './teamMembers'
+
+import type { ProcessedCommit, TimesheetGrid, TimesheetSettings, WorkSession } from '../types/bitbucket'
+
+export const NO_TICKET_LABEL = 'No ticket'
+
+const MINUTE = 60 * 1000
+
+/**
+ * Formats a date as a local YYYY-MM-DD key (unlike toISOString, which uses UTC).
+ */
+export function toLocalDateKey(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0')
+  const day = `${date.getDate()}`.padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Groups commits into work sessions, on a separate timeline per author so that teammates'
+ * commits never split or stretch each other's sessions.
+ *
+ * A session ends when the gap to the next commit exceeds `idleGapMinutes`, and gets
+ * `leadInMinutes` of work before its first commit. When the ticket changes within a
+ * session the time is handed over at the previous commit, so no minute is counted twice.
+ * Commits without a ticket stay in the session they fall in.
+ */
+export function buildWorkSessions(items: ProcessedCommit[], settings: TimesheetSettings): WorkSession[] {
+  const idleGap = settings.idleGapMinutes * MINUTE
+  const leadIn = settings.leadInMinutes * MINUTE
+
+  const seen = new Set<string>()
+  const byAuthor: Map<string, ProcessedCommit[]> = new Map()
+  items.forEach((item: ProcessedCommit) => {
+    if (!item.commit_hash || !item.commit_date || seen.has(item.commit_hash)) return
+    seen.add(item.commit_hash)
+    const authorId = getItemAuthorId(item)
+    byAuthor.set(authorId, [...(byAuthor.get(authorId) || []), item])
+  })
+
+  const sessions: WorkSession[] = []
+  byAuthor.forEach((commits, authorId) => {
+    commits.sort((a, b) => new Date(a.commit_date).getTime() - new Date(b.commit_date).getTime())
+    sessions.push(...buildAuthorSessions(commits, authorId, idleGap, leadIn))
+  })
+
+  return sessions.sort((a, b) => a.start.localeCompare(b.start))
+}
+
+// One author's commits, oldest first, into sessions
+function buildAuthorSessions(commits: ProcessedCommit[], authorId: string, idleGap: number, leadIn: number): WorkSession[] {
+  const sessions: WorkSession[] = []
+  let current: { ticket: string | null; start: number; end: number; items: ProcessedCommit[] } | null = null
+
+  const closeCurrent = () => {
+    if (!current) return
+    const first = new Date(current.items[0].commit_date)
+    sessions.push({
+      id: `${current.items[0].commit_hash}-${current.items.length}`,
+      authorId,
+      ticket: current.ticket,
+      day: toLocalDateKey(first),
+      start: new Date(current.start).toISOString(),
+      end: new Date(current.end).toISOString(),
+      durationMinutes: Math.round((current.end - current.start) / MINUTE),
+      repos: [...new Set(current.items.map(item => item.repo))],
+      items: current.items
+    })
+  }
+
+  for (const commit of commits) {
+    const time = new Date(commit.commit_date).getTime()
+    const ticket = extractIssueId(commit)
+
+    if (!current || time - current.end > idleGap) {
+      closeCurrent()
+      current = { ticket, start: time - leadIn, end: time, items: [commit] }
+    } else if (ticket && ticket !== current.ticket) {
+      const handover: number = current.end
+      closeCurrent()
+      current = { ticket, start: handover, end: time, items: [commit] }
+    } else {
+      current.end = time
+      current.items.push(commit)
+    }
+  }
+  closeCurrent()
+
+  return sessions
+}
+
+/**
+ * Sums session durations into a ticket × day grid. Tickets are ordered by total time.
+ */
+export function buildTimesheetGrid(sessions: WorkSession[]): TimesheetGrid {
+  const minutes: Record<string, Record<string, number>> = {}
+  const ticketTotals: Record<string, number> = {}
+  const dayTotals: Record<string, number> = {}
+  let totalMinutes = 0
+
+  sessions.forEach((session: WorkSession) => {
+    const ticket = session.ticket || NO_TICKET_LABEL
+    minutes[ticket] = minutes[ticket] || {}
+    minutes[ticket][session.day] = (minutes[ticket][session.day] || 0) + session.durationMinutes
+    ticketTotals[ticket] = (ticketTotals[ticket] || 0) + session.durationMinutes
+    dayTotals[session.day] = (dayTotals[session.day] || 0) + session.durationMinutes
+    totalMinutes += session.durationMinutes
+  })
+
+  return {
+    days: Object.keys(dayTotals).sort(),
+    tickets: Object.keys(ticketTotals).sort((a, b) => ticketTotals[b] - ticketTotals[a]),
+    minutes,
+    ticketTotals,
+    dayTotals,
+    totalMinutes
+  }
+}
+
+/**
+ * Rounds minutes up to the configured granularity and returns hours.
+ */
+export function toRoundedHours(minutes: number, roundToMinutes: number): number {
+  if (minutes <= 0) return 0
+  const step = Math.max(1, roundToMinutes)
+  return (Math.ceil(minutes / step) * step) / 60
+}
+
+export function formatHours(hours: number): string {
+  if (hours === 0) return ''
+  return Number.isInteger(hours) ? `${hours}` : hours.toFixed(2).replace(/0$/, '')
+}
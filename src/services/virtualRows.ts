@@ -0,0 +1,139 @@
+// Virtual Rows - renders only the rows of a long list that are in or near view
+// Rows differ in height (ticket details, group headings), so every rendered row is measured
+// and remembered by its id; rows not seen yet count as the estimated height. Spacers above
+// and below the rendered rows stand in for the rest, which keeps the scrollbar right.
+// Short lists render in full and the container does not scroll on its own.
+
+import { ref, computed, watch, onMounted, onBeforeUnmount, type Ref, type ComputedRef } from 'vue'
+
+interface VirtualRowsOptions {
+  estimatedHeight: number;
+  overscan?: number; // Rows rendered beyond each edge of the view
+  threshold?: number; // Lists up to this length are not virtualised
+}
+
+export interface VirtualRows<T> {
+  isVirtual: ComputedRef<boolean>;
+  visibleRows: ComputedRef<T[]>;
+  paddingTop: ComputedRef<number>;
+  paddingBottom: ComputedRef<number>;
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Must be called from a component's setup. Rendered rows need a `data-row-id` attribute
+ * inside `container`, which has to be the scrolling element.
+ */
+export function useVirtualRows<T extends { id: string }>(
+  rows: Ref<T[]>,
+  container: Ref<HTMLElement | undefined>,
+  options: VirtualRowsOptions
+): VirtualRows<T> {
+  const overscan = options.overscan ?? 10
+  const threshold = options.threshold ?? 200
+
+  const scrollTop = ref(0)
+  const viewportHeight = ref(0)
+  const heights = new Map<string, number>()
+  const heightsVersion = ref(0)
+
+  const isVirtual = computed((): boolean => rows.value.length > threshold)
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = computed((): number[] => {
+    void heightsVersion.value
+    const result = new Array<number>(rows.value.length + 1)
+    result[0] = 0
+    rows.value.forEach((row, index) => {
+      result[index + 1] = result[index] + (heights.get(row.id) ?? options.estimatedHeight)
+    })
+    return result
+  })
+
+  // Index of the row at `position`, by binary search over the offsets
+  const findRow = (position: number): number => {
+    const list = offsets.value
+    let low = 0
+    let high = rows.value.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (list[mid] <= position) low = mid
+      else high = mid - 1
+    }
+    return Math.max(0, low)
+  }
+
+  const range = computed(() => {
+    if (!isVirtual.value) return { start: 0, end: rows.value.length }
+    const start = Math.max(0, findRow(scrollTop.value) - overscan)
+    const end = Math.min(rows.value.length, findRow(scrollTop.value + viewportHeight.value) + overscan + 1)
+    return { start, end }
+  })
+
+  const visibleRows = computed((): T[] => rows.value.slice(range.value.start, range.value.end))
+  const paddingTop = computed((): number => isVirtual.value ? offsets.value[range.value.start] : 0)
+  const paddingBottom = computed((): number => {
+    return isVirtual.value ? offsets.value[rows.value.length] - offsets.value[range.value.end] : 0
+  })
+
+  const measure = () => {
+    if (!container.value || !isVirtual.value) return
+    let changed = false
+    container.value.querySelectorAll<HTMLElement>('[data-row-id]').forEach(element => {
+      const id = element.dataset.rowId!
+      const height = element.offsetHeight
+      if (height > 0 && heights.get(id) !== height) {
+        heights.set(id, height)
+        changed = true
+      }
+    })
+    if (changed) heightsVersion.value++
+  }
+
+  let frame: number | null = null
+  const handleScroll = () => {
+    if (frame !== null) return
+    frame = requestAnimationFrame(() => {
+      frame = null
+      if (!container.value) return
+      scrollTop.value = container.value.scrollTop
+      viewportHeight.value = container.value.clientHeight
+    })
+  }
+
+  const resizeObserver = new ResizeObserver(handleScroll)
+
+  watch(container, (element, previous) => {
+    previous?.removeEventListener('scroll', handleScroll)
+    if (previous) resizeObserver.unobserve(previous)
+    if (!element) return
+    element.addEventListener('scroll', handleScroll, { passive: true })
+    resizeObserver.observe(element)
+    handleScroll()
+  })
+
+  // Measure what was just rendered, once the DOM is updated
+  watch(visibleRows, measure, { flush: 'post' })
+
+  onMounted(measure)
+  onBeforeUnmount(() => {
+    container.value?.removeEventListener('scroll', handleScroll)
+    resizeObserver.disconnect()
+    if (frame !== null) cancelAnimationFrame(frame)
+  })
+
+  const scrollToIndex = (index: number) => {
+    const element = container.value
+    if (!element || !isVirtual.value || index < 0 || index >= rows.value.length) return
+    const top = offsets.value[index]
+    const bottom = offsets.value[index + 1]
+    if (top < element.scrollTop) {
+      element.scrollTop = top
+    } else if (bottom > element.scrollTop + element.clientHeight) {
+      element.scrollTop = bottom - element.clientHeight
+    }
+    handleScroll()
+  }
+
+  return { isVirtual, visibleRows, paddingTop, paddingBottom, scrollToIndex }
+}
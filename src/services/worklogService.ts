@@ -0,0 +1,246 @@
+// Worklog Service - turns activity into time entries and sends them to a worklog API
+// Drafts are built from timesheet sessions or selected activity, reviewed and edited in
+// WorklogReview, then posted one by one to a Tempo- or Harvest-style endpoint. Only your own
+// activity becomes a draft; teammates' work in team mode is never booked to your account. Every sent
+// entry is recorded with the activity keys it covers (see stores/worklogStore.ts), so the
+// same commits cannot be booked twice. `npm run mock:tracker` includes a stub for both formats.
+
+import { httpClient } from './httpClient'
+import { extractIssueId, getDisplayTitle } from './activityUtils'
+import { getActivityKey } from './activityCache'
+import { ticketMetadataService } from './ticketMetadataService'
+import { isOwnActivity, SELF_MEMBER_ID } from './teamMembers'
+import { toLocalDateKey, toRoundedHours, NO_TICKET_LABEL } from './timesheetUtils'
+import { worklogSettings, useWorklogs } from '../stores/worklogStore'
+
+import type { ProcessedCommit, WorkSession } from '../types/bitbucket'
+import type {
+  SubmittedWorklog,
+  WorklogDraft,
+  WorklogFormat,
+  WorklogSettings,
+  WorklogSubmitResult
+} from '../types/worklogs'
+
+const MAX_DESCRIPTION_LENGTH = 255
+
+const ENTRY_PATHS: Record<WorklogFormat, string> = {
+  tempo: 'worklogs',
+  harvest: 'time_entries'
+}
+
+function toLocalTime(date: Date): string {
+  const hours = `${date.getHours()}`.padStart(2, '0')
+  const minutes = `${date.getMinutes()}`.padStart(2, '0')
+  return `${hours}:${minutes}`
+}
+
+// Distinct titles in order of appearance, joined and cut to what worklog APIs accept
+function describe(items: ProcessedCommit[], ticket: string | null): string {
+  const titles = [...new Set(items.map(item => getDisplayTitle(item).trim()).filter(Boolean))]
+    .map(title => ticket ? title.replace(new RegExp(`^\\[?${ticket}\\]?[:\\s-]*`, 'i'), '') : title)
+  const description = titles.join('; ')
+  return description.length > MAX_DESCRIPTION_LENGTH
+    ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+    : description
+}
+
+/**
+ * One draft per ticket and day, i.e. per timesheet cell: the sessions' minutes are summed and
+ * then rounded, exactly as the cell shows them, and the entry starts with the first session.
+ * Other authors' sessions are left out.
+ */
+export function buildSessionDrafts(sessions: WorkSession[], roundToMinutes: number): WorklogDraft[] {
+  const cells: Map<string, WorkSession[]> = new Map()
+
+  sessions.filter(session => session.authorId === SELF_MEMBER_ID).forEach((session: WorkSession) => {
+    const cellKey = `${session.ticket || NO_TICKET_LABEL}|${session.day}`
+    cells.set(cellKey, [...(cells.get(cellKey) || []), session])
+  })
+
+  return [...cells.entries()].map(([cellKey, cellSessions]): WorklogDraft => {
+    const first = [...cellSessions].sort((a, b) => a.start.localeCompare(b.start))[0]
+    const items = cellSessions.flatMap(session => session.items)
+    const minutes = cellSessions.reduce((sum, session) => sum + session.durationMinutes, 0)
+
+    return {
+      id: `session:${cellKey}`,
+      source: 'session',
+      itemKeys: items.map(getActivityKey),
+      ticket: first.ticket,
+      date: first.day,
+      startTime: toLocalTime(new Date(first.start)),
+      durationMinutes: Math.round(toRoundedHours(minutes, roundToMinutes) * 60),
+      description: describe(items, first.ticket)
+    }
+  }).sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+}
+
+/**
+ * Groups selected activity per ticket and day, counting `minutesPerItem` for every item.
+ * Other authors' items are left out.
+ */
+export function buildActivityDrafts(items: ProcessedCommit[], minutesPerItem: number = worklogSettings.minutesPerItem): WorklogDraft[] {
+  const groups: Map<string, ProcessedCommit[]> = new Map()
+
+  items.filter(isOwnActivity).forEach((item: ProcessedCommit) => {
+    const date = toLocalDateKey(new Date(item.commit_date || item.pr_updated_on || ''))
+    const groupKey = `${extractIssueId(item) || ''}|${date}`
+    groups.set(groupKey, [...(groups.get(groupKey) || []), item])
+  })
+
+  return [...groups.entries()].map(([groupKey, groupItems]): WorklogDraft => {
+    const [ticket, date] = groupKey.split('|')
+    const first = groupItems
+      .map(item => new Date(item.commit_date || item.pr_updated_on || ''))
+      .sort((a, b) => a.getTime() - b.getTime())[0]
+
+    return {
+      id: `activity:${groupKey}`,
+      source: 'activity',
+      itemKeys: groupItems.map(getActivityKey),
+      ticket: ticket || null,
+      date,
+      startTime: toLocalTime(first),
+      durationMinutes: groupItems.length * minutesPerItem,
+      description: describe(groupItems, ticket || null)
+    }
+  }).sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+}
+
+function isLocalStub(settings: WorklogSettings): boolean {
+  return /^https?:\/\/localhost[:/]/.test(settings.endpoint)
+}
+
+/**
+ * Returns what is missing from the connection settings, or null when entries can be sent.
+ */
+export function getSettingsError(settings: WorklogSettings = worklogSettings): string | null {
+  if (!settings.endpoint) return 'Set a worklog API URL in Settings → Time Tracking'
+  // The local stub accepts anything, with or without an issue tracker
+  if (isLocalStub(settings)) return null
+  // Tempo books against issue ids, which only the issue tracker knows
+  if (settings.format === 'tempo' && !ticketMetadataService.isEnabled) {
+    return 'Tempo needs the issue tracker (Settings → Issue Tracker) to look up issue ids'
+  }
+  if (!settings.apiToken) return 'Add an API token in Settings → Time Tracking'
+  if (settings.format === 'tempo' && !settings.authorAccountId) return 'Tempo needs the Atlassian account id to book time for'
+  if (settings.format === 'harvest' && (!settings.harvestAccountId || !settings.harvestProjectId || !settings.harvestTaskId)) {
+    return 'Harvest needs an account, project and task id'
+  }
+  return null
+}
+
+/**
+ * Returns why a draft cannot be sent, or null when it is valid.
+ */
+export function getDraftError(draft: WorklogDraft): string | null {
+  const { isSubmitted } = useWorklogs()
+
+  if (!draft.ticket) return 'No ticket'
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) return 'Invalid date'
+  if (!/^\d{2}:\d{2}$/.test(draft.startTime)) return 'Invalid start time'
+  if (!(draft.durationMinutes > 0)) return 'Duration must be positive'
+  if (draft.itemKeys.some(isSubmitted)) return 'Already submitted'
+  return null
+}
+
+async function buildPayload(draft: WorklogDraft, settings: WorklogSettings): Promise<Record<string, unknown>> {
+  const ticket = draft.ticket as string
+
+  if (settings.format === 'harvest') {
+    return {
+      project_id: Number(settings.harvestProjectId) || settings.harvestProjectId,
+      task_id: Number(settings.harvestTaskId) || settings.harvestTaskId,
+      spent_date: draft.date,
+      hours: Math.round((draft.durationMinutes / 60) * 100) / 100,
+      notes: `${ticket} ${draft.description}`.trim(),
+      external_reference: {
+        id: ticket,
+        group_id: ticket.split('-')[0],
+        permalink: ticketMetadataService.getIssueUrl(ticket) || undefined
+      }
+    }
+  }
+
+  // Without an issue tracker there are no ids to look up; the local stub takes the key instead
+  const stubKey = isLocalStub(settings) && !ticketMetadataService.isEnabled
+  const issueId = stubKey ? null : await ticketMetadataService.getIssueId(ticket)
+  if (!issueId && !stubKey) throw new Error(`${ticket} was not found in the issue tracker`)
+
+  return {
+    issueId: issueId ? Number(issueId) : ticket,
+    authorAccountId: settings.authorAccountId,
+    startDate: draft.date,
+    startTime: `${draft.startTime}:00`,
+    timeSpentSeconds: draft.durationMinutes * 60,
+    description: draft.description || ticket
+  }
+}
+
+function buildHeaders(settings: WorklogSettings): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (settings.apiToken) headers['Authorization'] = `Bearer ${settings.apiToken}`
+  if (settings.format === 'harvest') {
+    headers['Harvest-Account-Id'] = settings.harvestAccountId
+    headers['User-Agent'] = 'Hours Vue App'
+  }
+  return headers
+}
+
+class WorklogService {
+  /**
+   * Sends drafts one at a time and records every accepted entry straight away,
+   * so a failure halfway leaves an accurate record of what was booked.
+   */
+  async submit(drafts: WorklogDraft[], signal?: AbortSignal): Promise<WorklogSubmitResult> {
+    const settingsError = getSettingsError()
+    if (settingsError) throw new Error(settingsError)
+
+    const { recordSubmissions } = useWorklogs()
+    const settings = { ...worklogSettings }
+    const url = `${settings.endpoint.replace(/\/$/, '')}/${ENTRY_PATHS[settings.format]}`
+    const result: WorklogSubmitResult = { submitted: [], failed: [] }
+
+    for (const draft of drafts) {
+      const draftError = getDraftError(draft)
+      if (draftError) {
+        result.failed.push({ draft, error: draftError })
+        continue
+      }
+
+      try {
+        const response = await httpClient.post<{ tempoWorklogId?: number | string; id?: number | string }>(
+          url,
+          await buildPayload(draft, settings),
+          { headers: buildHeaders(settings), signal }
+        )
+
+        const entry: SubmittedWorklog = {
+          id: `${draft.id}:${Date.now()}`,
+          remoteId: String(response?.tempoWorklogId ?? response?.id ?? '') || null,
+          format: settings.format,
+          ticket: draft.ticket as string,
+          date: draft.date,
+          durationMinutes: draft.durationMinutes,
+          description: draft.description,
+          itemKeys: draft.itemKeys,
+          submittedAt: new Date().toISOString()
+        }
+        recordSubmissions([entry])
+        result.submitted.push(entry)
+      } catch (error) {
+        signal?.throwIfAborted()
+        result.failed.push({ draft, error: error instanceof Error ? error.message : 'Request failed' })
+      }
+    }
+
+    console.log(`🕒 Submitted ${result.submitted.length} worklogs, ${result.failed.length} failed`)
+    return result
+  }
+}
+
+// Export singleton instance with proper typing
+export const worklogService = new WorklogService()
+
+export default worklogService
@@ -0,0 +1,48 @@
+import { reactive, computed, markRaw } from 'vue'
+import type { ProcessedCommit } from '../types/bitbucket'
+import type { PaletteCommand } from '../types/commands'
+
+// Palette state and the commands pages add while they are shown
+const state = reactive({
+  isOpen: false,
+  focusedItem: null as ProcessedCommit | null, // Row picked with the keyboard in the activity table
+  pageCommands: [] as PaletteCommand[]
+})
+
+export const useCommandPalette = () => {
+  const open = () => {
+    state.isOpen = true
+  }
+
+  const close = () => {
+    state.isOpen = false
+  }
+
+  const toggle = () => {
+    state.isOpen = !state.isOpen
+  }
+
+  const setFocusedItem = (item: ProcessedCommit | null) => {
+    state.focusedItem = item
+  }
+
+  // Returns a function that removes the commands again, for onBeforeUnmount
+  const registerCommands = (commands: PaletteCommand[]): (() => void) => {
+    const registered = commands.map(command => markRaw(command))
+    state.pageCommands.push(...registered)
+    return () => {
+      state.pageCommands = state.pageCommands.filter(command => !registered.includes(command))
+    }
+  }
+
+  return {
+    isOpen: computed(() => state.isOpen),
+    focusedItem: computed(() => state.focusedItem),
+    pageCommands: computed(() => state.pageCommands),
+    open,
+    close,
+    toggle,
+    setFocusedItem,
+    registerCommands
+  }
+}
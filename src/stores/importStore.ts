@@ -0,0 +1,66 @@
+import { computed } from 'vue'
+import { createPersistedState } from './persistedState'
+import { mergeActivity } from '../services/activityUtils'
+import { errorService, ErrorSeverity } from '../services/errorService'
+import type { ProcessedCommit } from '../types/bitbucket'
+
+const IMPORTED_ACTIVITY_KEY = 'hours_imported_activity'
+
+// Written as soon as it changes, so an import that does not fit is known before it is reported
+let persistError: unknown = null
+
+const state = createPersistedState<{ commits: ProcessedCommit[] }>(IMPORTED_ACTIVITY_KEY, {
+  commits: []
+}, { flush: 'sync', onError: error => { persistError = error } })
+
+export const useImportedActivity = () => {
+  /**
+   * Adds parsed commits, skipping hashes that were imported before. Returns the number added,
+   * or null when they do not fit in the browser storage; the import is then undone and reported.
+   */
+  const importCommits = (commits: ProcessedCommit[]): number | null => {
+    const previous = state.commits
+    persistError = null
+    state.commits = mergeActivity(previous, commits)
+
+    if (persistError) {
+      const error = persistError
+      state.commits = previous
+      errorService.report(error, ErrorSeverity.ERROR, 'The imported commits do not fit in the browser storage. Remove older imports or import a shorter log')
+      return null
+    }
+    return state.commits.length - previous.length
+  }
+
+  const removeRepository = (repo: string) => {
+    state.commits = state.commits.filter(commit => commit.repo !== repo)
+  }
+
+  const clearImports = () => {
+    state.commits = []
+  }
+
+  const getCommitsSince = (maxDays: number): ProcessedCommit[] => {
+    const since = Date.now() - maxDays * 24 * 60 * 60 * 1000
+    return state.commits.filter(commit => new Date(commit.commit_date).getTime() >= since)
+  }
+
+  const repositorySummary = computed(() => {
+    const counts: Record<string, number> = {}
+    state.commits.forEach(commit => {
+      counts[commit.repo] = (counts[commit.repo] || 0) + 1
+    })
+    return Object.entries(counts)
+      .map(([repo, count]) => ({ repo, count }))
+      .sort((a, b) => a.repo.localeCompare(b.repo))
+  })
+
+  return {
+    commits: computed(() => state.commits),
+    repositorySummary,
+    importCommits,
+    removeRepository,
+    clearImports,
+    getCommitsSince
+  }
+}
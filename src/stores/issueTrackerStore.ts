@@ -0,0 +1,37 @@
+import { createPersistedState } from './persistedState'
+import type { IssueTrackerSettings } from '../types/tickets'
+
+const ISSUE_TRACKER_KEY = 'hours_issue_tracker'
+
+// Port of `npm run mock:tracker`
+export const MOCK_TRACKER_URL = 'http://localhost:4010'
+
+export const DEFAULT_ISSUE_TRACKER_SETTINGS: IssueTrackerSettings = {
+  enabled: false,
+  baseUrl: '', // Unset: no issue links and no lookups
+  email: '',
+  apiToken: ''
+}
+
+export const issueTrackerSettings = createPersistedState<IssueTrackerSettings>(ISSUE_TRACKER_KEY, { ...DEFAULT_ISSUE_TRACKER_SETTINGS })
+
+export const useIssueTracker = () => {
+  const useMockTracker = () => {
+    Object.assign(issueTrackerSettings, {
+      enabled: true,
+      baseUrl: MOCK_TRACKER_URL,
+      email: '',
+      apiToken: ''
+    })
+  }
+
+  const resetSettings = () => {
+    Object.assign(issueTrackerSettings, DEFAULT_ISSUE_TRACKER_SETTINGS)
+  }
+
+  return {
+    settings: issueTrackerSettings,
+    useMockTracker,
+    resetSettings
+  }
+}
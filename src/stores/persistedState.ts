@@ -0,0 +1,39 @@
+import { reactive, watch, type UnwrapNestedRefs } from 'vue'
+
+interface PersistOptions {
+  flush?: 'pre' | 'sync'; // 'sync' writes during the change, so a caller can react to onError right away
+  onError?: (error: unknown) => void; // Called when writing fails, e.g. when the storage is full
+}
+
+/**
+ * Creates a reactive object that is restored from and written back to localStorage.
+ * Stored values are merged over the defaults so newly added fields get sensible values.
+ */
+export function createPersistedState<T extends object>(storageKey: string, defaults: T, options: PersistOptions = {}): UnwrapNestedRefs<T> {
+  const state = reactive({ ...defaults, ...loadPersisted<T>(storageKey) }) as UnwrapNestedRefs<T>
+
+  watch(
+    () => state,
+    (value) => {
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(value))
+      } catch (error) {
+        console.warn(`Failed to persist ${storageKey}:`, error)
+        options.onError?.(error)
+      }
+    },
+    { deep: true, flush: options.flush || 'pre' }
+  )
+
+  return state
+}
+
+function loadPersisted<T>(storageKey: string): Partial<T> {
+  try {
+    const raw = localStorage.getItem(storageKey)
+    return raw ? JSON.parse(raw) : {}
+  } catch (error) {
+    console.warn(`Failed to load ${storageKey}, using defaults:`, error)
+    return {}
+  }
+}
@@ -0,0 +1,61 @@
+import { computed } from 'vue'
+import { createPersistedState } from './persistedState'
+import type { AuthorConfig, UserProfile } from '../types/profile'
+
+const PROFILE_KEY = 'hours_profile'
+
+// The VITE_BITBUCKET_* variables only seed a new profile, so older .env setups keep working
+function getEnvDefaults(): UserProfile {
+  const env = import.meta.env
+  return {
+    displayName: env.VITE_BITBUCKET_PR_AUTHOR_DISPLAY_NAME || '',
+    aliases: [env.VITE_BITBUCKET_AUTHOR_EMAIL, env.VITE_BITBUCKET_COMMIT_AUTHOR_RAW].filter((alias): alias is string => !!alias),
+    username: env.VITE_BITBUCKET_AUTHOR_USERNAME || env.VITE_BITBUCKET_API_USERNAME || '',
+    workspaces: (env.VITE_BITBUCKET_WORKSPACES || '').split(',').map(ws => ws.trim()).filter(Boolean)
+  }
+}
+
+export const userProfile = createPersistedState<UserProfile>(PROFILE_KEY, getEnvDefaults())
+
+/**
+ * "Name <email>" -> ["Name", "email"]; anything else is returned as is.
+ */
+export function parseAuthorAlias(alias: string | null | undefined): string[] {
+  if (!alias) return []
+  const match = alias.match(/^(.*?)\s*<([^>]*)>\s*$/)
+  return match ? [match[1], match[2]].filter(Boolean) : [alias]
+}
+
+// Every email in the aliases, bare or inside a raw author string
+export const profileEmails = computed((): string[] => {
+  return [...new Set(userProfile.aliases.flatMap(parseAuthorAlias).filter(part => part.includes('@')))]
+})
+
+export const authorConfig = computed((): AuthorConfig => ({
+  apiUsername: userProfile.username,
+  prAuthorDisplayName: userProfile.displayName,
+  commitAuthorRaw: userProfile.aliases.find(alias => alias.includes('<')) || '',
+  authorEmail: profileEmails.value[0]
+}))
+
+export const useProfile = () => {
+  // Without a name or anything to match commits on, nothing can be attributed to you
+  const isComplete = computed((): boolean => {
+    return !!userProfile.displayName.trim() && (userProfile.aliases.length > 0 || !!userProfile.username.trim())
+  })
+
+  const setAliases = (aliases: string[]) => {
+    userProfile.aliases = [...new Set(aliases.map(alias => alias.trim()).filter(Boolean))]
+  }
+
+  const setWorkspaces = (workspaces: string[]) => {
+    userProfile.workspaces = [...new Set(workspaces.map(ws => ws.trim()).filter(Boolean))]
+  }
+
+  return {
+    profile: userProfile,
+    isComplete,
+    setAliases,
+    setWorkspaces
+  }
+}
@@ -0,0 +1,59 @@
+import { createPersistedState } from './persistedState'
+import type { ProviderConnection, ProviderType } from '../types/providers'
+
+const PROVIDER_CONNECTIONS_KEY = 'hours_provider_connections'
+
+// The Laravel backend is always available as the default Bitbucket connection
+const defaultBitbucketConnection: ProviderConnection = {
+  id: 'bitbucket-default',
+  type: 'bitbucket',
+  workspace: '',
+  baseUrl: '',
+  token: '',
+  username: '',
+  repositories: [],
+  enabled: true
+}
+
+const state = createPersistedState<{ connections: ProviderConnection[] }>(PROVIDER_CONNECTIONS_KEY, {
+  connections: [defaultBitbucketConnection]
+})
+
+export const useProviderConnections = () => {
+  const addConnection = (type: ProviderType): ProviderConnection => {
+    const connection: ProviderConnection = {
+      id: `${type}-${Date.now().toString(36)}`,
+      type,
+      workspace: '',
+      baseUrl: '',
+      token: '',
+      username: '',
+      repositories: [],
+      enabled: true
+    }
+    state.connections.push(connection)
+    return connection
+  }
+
+  const updateConnection = (id: string, updates: Partial<ProviderConnection>) => {
+    const connection = state.connections.find(c => c.id === id)
+    if (connection) {
+      Object.assign(connection, updates)
+    }
+  }
+
+  const removeConnection = (id: string) => {
+    const index = state.connections.findIndex(c => c.id === id)
+    if (index !== -1) {
+      state.connections.splice(index, 1)
+    }
+  }
+
+  return {
+    connections: state.connections,
+    enabledConnections: () => state.connections.filter(c => c.enabled),
+    addConnection,
+    updateConnection,
+    removeConnection
+  }
+}
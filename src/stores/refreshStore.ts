@@ -113,29 +113,18 @@ class RefreshStatusStore {
     }
   }
 
-  // Check if we should still be polling this job
-  shouldPoll(): boolean {
-    if (!this.refreshJob.value) return false
-    
-    // Don't poll if job is completed, failed, or cancelled
-    if (this.refreshJob.value.is_completed || this.refreshJob.value.is_failed || (this.refreshJob.value.is_cancelled || false)) {
-      return false
-    }
-
-    // Don't poll if it's been too long since we started
-    const now = new Date()
-    const maxElapsed = 15 * 60 * 1000 // 15 minutes
-    
-    if (this.refreshJob.value.updated_at) {
-      const lastUpdate = new Date(this.refreshJob.value.updated_at)
-      const elapsed = now.getTime() - lastUpdate.getTime()
-      if (elapsed > maxElapsed) {
-        console.warn('Refresh job polling timeout - job may have stalled')
-        return false
+  // The job is still running on the backend as far as we know, but we stopped waiting for it
+  failJob(message: string): void {
+    if (this.refreshJob.value) {
+      this.refreshJob.value = {
+        ...this.refreshJob.value,
+        status: 'failed',
+        is_running: false,
+        is_failed: true,
+        message,
+        error: message
       }
     }
-
-    return this.refreshJob.value.is_running
   }
 
   // Persistence methods
@@ -180,9 +169,9 @@ class RefreshStatusStore {
           
           console.log('📂 Restored refresh status from storage:', state.job.job_id)
           
-          // If job is still running, we might want to resume polling
+          // If job is still running, App resumes tracking it through refreshJobTracker
           if (state.job.is_running && !state.job.is_completed && !state.job.is_failed) {
-            console.log('🔄 Job still running, will resume polling')
+            console.log('🔄 Job still running, will resume tracking')
           }
         } else {
           console.log('🕐 Persisted refresh status too old, clearing')
@@ -243,7 +232,7 @@ export function useRefreshStatus() {
     hideStatus: () => refreshStatusStore.hideStatus(),
     showStatus: () => refreshStatusStore.showStatus(),
     cancelJob: () => refreshStatusStore.cancelJob(),
-    shouldPoll: () => refreshStatusStore.shouldPoll(),
+    failJob: (message: string) => refreshStatusStore.failJob(message),
     
     // Getters
     formatElapsedTime: () => refreshStatusStore.formatElapsedTime(),
@@ -0,0 +1,77 @@
+import { computed } from 'vue'
+import { createPersistedState } from './persistedState'
+import { BUILT_IN_VIEWS } from '../services/savedViews'
+import type { SavedView } from '../types/views'
+
+const SAVED_VIEWS_KEY = 'hours_saved_views'
+
+interface SavedViewState {
+  views: SavedView[];
+  unpinnedBuiltIns: string[]; // Built-in views are pinned unless listed here
+}
+
+const state = createPersistedState<SavedViewState>(SAVED_VIEWS_KEY, { views: [], unpinnedBuiltIns: [] })
+
+// Built-in views first, then your own in the order they were saved
+export const savedViews = computed((): SavedView[] => [
+  ...BUILT_IN_VIEWS.map(view => ({ ...view, pinned: !state.unpinnedBuiltIns.includes(view.id) })),
+  ...state.views
+])
+
+export const useSavedViews = () => {
+  const pinnedViews = computed((): SavedView[] => savedViews.value.filter(view => view.pinned))
+
+  const saveView = (view: Omit<SavedView, 'id'>): SavedView => {
+    const saved: SavedView = { ...view, id: `view-${Date.now().toString(36)}` }
+    state.views.push(saved)
+    return saved
+  }
+
+  const updateView = (id: string, updates: Partial<SavedView>) => {
+    const view = state.views.find(v => v.id === id)
+    if (view) {
+      Object.assign(view, updates)
+    }
+  }
+
+  const removeView = (id: string) => {
+    const index = state.views.findIndex(v => v.id === id)
+    if (index !== -1) {
+      state.views.splice(index, 1)
+    }
+  }
+
+  const togglePinned = (view: SavedView) => {
+    if (!view.builtIn) {
+      updateView(view.id, { pinned: !view.pinned })
+    } else if (view.pinned) {
+      state.unpinnedBuiltIns.push(view.id)
+    } else {
+      state.unpinnedBuiltIns = state.unpinnedBuiltIns.filter(id => id !== view.id)
+    }
+  }
+
+  // Imported views replace saved views with the same id; returns how many were added or replaced
+  const importViews = (views: SavedView[]): number => {
+    views.forEach(view => {
+      const index = state.views.findIndex(existing => existing.id === view.id)
+      if (index === -1) {
+        state.views.push(view)
+      } else {
+        state.views.splice(index, 1, view)
+      }
+    })
+    return views.length
+  }
+
+  return {
+    views: savedViews,
+    customViews: state.views,
+    pinnedViews,
+    saveView,
+    updateView,
+    removeView,
+    togglePinned,
+    importViews
+  }
+}
@@ -0,0 +1,45 @@
+import { createPersistedState } from './persistedState'
+import type { TeamMember } from '../types/team'
+
+const TEAM_KEY = 'hours_team'
+
+// Assigned to new members in turn; the first colour belongs to you
+export const MEMBER_COLORS = ['#F97316', '#3B82F6', '#8B5CF6', '#10B981', '#EC4899', '#EAB308', '#14B8A6', '#EF4444']
+
+// Your teammates; your own identity comes from the author configuration
+const state = createPersistedState<{ members: TeamMember[] }>(TEAM_KEY, { members: [] })
+
+export const useTeam = () => {
+  const addMember = (): TeamMember => {
+    const member: TeamMember = {
+      id: `member-${Date.now().toString(36)}`,
+      name: '',
+      color: MEMBER_COLORS[(state.members.length + 1) % MEMBER_COLORS.length],
+      emails: [],
+      accounts: {}
+    }
+    state.members.push(member)
+    return member
+  }
+
+  const updateMember = (id: string, updates: Partial<TeamMember>) => {
+    const member = state.members.find(m => m.id === id)
+    if (member) {
+      Object.assign(member, updates)
+    }
+  }
+
+  const removeMember = (id: string) => {
+    const index = state.members.findIndex(m => m.id === id)
+    if (index !== -1) {
+      state.members.splice(index, 1)
+    }
+  }
+
+  return {
+    members: state.members,
+    addMember,
+    updateMember,
+    removeMember
+  }
+}
@@ -0,0 +1,98 @@
+import { createPersistedState } from './persistedState'
+import type { TicketPattern, TicketPatternSettings } from '../types/tickets'
+
+const TICKET_PATTERNS_KEY = 'hours_ticket_patterns'
+
+export const DEFAULT_TICKET_PATTERNS: TicketPattern[] = [
+  {
+    id: 'jira-key',
+    label: 'Jira-style key (ABC-123)',
+    pattern: '\\b([A-Z][A-Z0-9]{1,9}-\\d+)\\b',
+    caseSensitive: true,
+    priority: 100,
+    enabled: true
+  },
+  {
+    id: 'keyword',
+    label: 'Keyword reference (ticket 123, issue #45)',
+    pattern: '\\b(?:ticket|issue|task|refs?|fixes|closes)[\\s:#]*([A-Z][A-Z0-9]{1,9}-\\d+|#?\\d+)\\b',
+    caseSensitive: false,
+    priority: 60,
+    enabled: true
+  },
+  {
+    id: 'branch-number',
+    label: 'Number at the start of a branch name (feature/123-login)',
+    pattern: '(?:^|/)(\\d+)[-_]',
+    caseSensitive: true,
+    priority: 40,
+    enabled: true
+  },
+  {
+    id: 'hash-number',
+    label: 'GitHub/GitLab reference (#123)',
+    pattern: '(?:^|[\\s(])(#\\d+)\\b',
+    caseSensitive: true,
+    priority: 20,
+    enabled: true
+  }
+]
+
+const cloneDefaults = (): TicketPatternSettings => ({
+  patterns: DEFAULT_TICKET_PATTERNS.map(pattern => ({ ...pattern })),
+  repoProjectKeys: []
+})
+
+export const ticketPatternSettings = createPersistedState<TicketPatternSettings>(TICKET_PATTERNS_KEY, cloneDefaults())
+
+export const useTicketPatterns = () => {
+  const addPattern = (): TicketPattern => {
+    const pattern: TicketPattern = {
+      id: `pattern-${Date.now()}`,
+      label: 'Custom pattern',
+      pattern: '',
+      caseSensitive: true,
+      priority: 50,
+      enabled: true
+    }
+    ticketPatternSettings.patterns.push(pattern)
+    return pattern
+  }
+
+  const updatePattern = (id: string, updates: Partial<TicketPattern>) => {
+    const pattern = ticketPatternSettings.patterns.find(item => item.id === id)
+    if (pattern) Object.assign(pattern, updates)
+  }
+
+  const removePattern = (id: string) => {
+    ticketPatternSettings.patterns = ticketPatternSettings.patterns.filter(item => item.id !== id)
+  }
+
+  const setRepoProjectKey = (repo: string, projectKey: string) => {
+    const key = projectKey.trim().toUpperCase()
+    const existing = ticketPatternSettings.repoProjectKeys.find(item => item.repo === repo)
+    if (existing) {
+      existing.projectKey = key
+    } else {
+      ticketPatternSettings.repoProjectKeys.push({ repo, projectKey: key })
+    }
+  }
+
+  const removeRepoProjectKey = (repo: string) => {
+    ticketPatternSettings.repoProjectKeys = ticketPatternSettings.repoProjectKeys.filter(item => item.repo !== repo)
+  }
+
+  const resetPatterns = () => {
+    ticketPatternSettings.patterns = cloneDefaults().patterns
+  }
+
+  return {
+    settings: ticketPatternSettings,
+    addPattern,
+    updatePattern,
+    removePattern,
+    setRepoProjectKey,
+    removeRepoProjectKey,
+    resetPatterns
+  }
+}
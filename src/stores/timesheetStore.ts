@@ -0,0 +1,23 @@
+import { createPersistedState } from './persistedState'
+import type { TimesheetSettings } from '../types/bitbucket'
+
+const TIMESHEET_SETTINGS_KEY = 'hours_timesheet_settings'
+
+export const DEFAULT_TIMESHEET_SETTINGS: TimesheetSettings = {
+  idleGapMinutes: 90,
+  leadInMinutes: 30,
+  roundToMinutes: 15
+}
+
+const settings = createPersistedState<TimesheetSettings>(TIMESHEET_SETTINGS_KEY, { ...DEFAULT_TIMESHEET_SETTINGS })
+
+export const useTimesheetSettings = () => {
+  const resetSettings = () => {
+    Object.assign(settings, DEFAULT_TIMESHEET_SETTINGS)
+  }
+
+  return {
+    settings,
+    resetSettings
+  }
+}
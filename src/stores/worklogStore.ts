@@ -0,0 +1,74 @@
+import { computed } from 'vue'
+import { createPersistedState } from './persistedState'
+import { MOCK_TRACKER_URL } from './issueTrackerStore'
+import type { SubmittedWorklog, WorklogFormat, WorklogSettings } from '../types/worklogs'
+
+const WORKLOG_SETTINGS_KEY = 'hours_worklog_settings'
+const WORKLOG_SUBMISSIONS_KEY = 'hours_worklog_submissions'
+
+export const DEFAULT_WORKLOG_ENDPOINTS: Record<WorklogFormat, string> = {
+  tempo: 'https://api.tempo.io/4',
+  harvest: 'https://api.harvestapp.com/v2'
+}
+
+export const DEFAULT_WORKLOG_SETTINGS: WorklogSettings = {
+  format: 'tempo',
+  endpoint: DEFAULT_WORKLOG_ENDPOINTS.tempo,
+  apiToken: '',
+  authorAccountId: '',
+  harvestAccountId: '',
+  harvestProjectId: '',
+  harvestTaskId: '',
+  minutesPerItem: 30
+}
+
+export const worklogSettings = createPersistedState<WorklogSettings>(WORKLOG_SETTINGS_KEY, { ...DEFAULT_WORKLOG_SETTINGS })
+
+const submissions = createPersistedState<{ entries: SubmittedWorklog[] }>(WORKLOG_SUBMISSIONS_KEY, { entries: [] })
+
+// Activity keys that are already part of a submitted entry
+const submittedItemKeys = computed((): Set<string> => {
+  return new Set(submissions.entries.flatMap(entry => entry.itemKeys))
+})
+
+export const useWorklogs = () => {
+  const isSubmitted = (itemKey: string): boolean => submittedItemKeys.value.has(itemKey)
+
+  const recordSubmissions = (entries: SubmittedWorklog[]) => {
+    submissions.entries = [...entries, ...submissions.entries]
+  }
+
+  const forgetSubmission = (id: string) => {
+    submissions.entries = submissions.entries.filter(entry => entry.id !== id)
+  }
+
+  const clearSubmissions = () => {
+    submissions.entries = []
+  }
+
+  const setFormat = (format: WorklogFormat) => {
+    worklogSettings.format = format
+    worklogSettings.endpoint = DEFAULT_WORKLOG_ENDPOINTS[format]
+  }
+
+  // Points the endpoint at the stub in `npm run mock:tracker`
+  const useStubServer = () => {
+    worklogSettings.endpoint = `${MOCK_TRACKER_URL}/${worklogSettings.format}`
+  }
+
+  const resetSettings = () => {
+    Object.assign(worklogSettings, DEFAULT_WORKLOG_SETTINGS)
+  }
+
+  return {
+    settings: worklogSettings,
+    submissions,
+    isSubmitted,
+    recordSubmissions,
+    forgetSubmission,
+    clearSubmissions,
+    setFormat,
+    useStubServer,
+    resetSettings
+  }
+}
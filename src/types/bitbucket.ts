@@ -1,5 +1,7 @@
 // Type definitions for Bitbucket API responses and internal data structures
 
+import type { ProviderType } from './providers'
+
 export interface BitbucketRepository {
   name: string;
   updated_on: string | null;
@@ -82,9 +84,11 @@ export interface ProcessedCommit {
   commit_date: string;
   commit_author_raw: string;
   commit_message: string;
+  author_username?: string | null; // Login the item was fetched for, used to match it to a team member
   repo: string;
   branch?: string | null; // New: branch information
-  pr_state?: 'MERGED' | 'OPEN' | 'DECLINED' | 'SUPERSEDED' | null; // New: PR state
+  pr_state?: PrState | null; // New: PR state
+  provider?: ProviderType | null; // Source the item was fetched from
   ticket: string | null;
   ticket_source: string | null;
   // PR-specific fields - null for direct commits
@@ -98,24 +102,15 @@ export interface ProcessedCommit {
 
 export interface BitbucketServiceConfig {
   apiToken: string;
-  apiUsername: string;
-  prAuthorDisplayName: string;
-  commitAuthorRaw: string;
-  authorEmail?: string; // New: author email for API filtering
   repos: string[];
   baseUrl: string;
-  workspaces?: string[]; // New: workspace configuration
-}
-
-export interface CacheData<T> {
-  data: T;
-  timestamp: number;
 }
 
+// Activity itself is cached persistently by activityCache (IndexedDB)
 export interface ServiceCache {
-  data: Map<string, CacheData<ProcessedCommit[]>>;
   repositories: BitbucketRepository[] | null;
   repositoriesTimestamp: number | null;
+  repositoriesWorkspaces: string | null; // Workspaces the cached repositories were fetched for
 }
 
 export interface FetchPullRequestsParams {
@@ -148,11 +143,60 @@ export interface RepositoryToggleResponse {
 }
 
 // UI and Application Types
+export type PrState = 'MERGED' | 'OPEN' | 'DECLINED' | 'SUPERSEDED';
+
 export interface AppFilters {
-  repo: string;
-  dateRange: number;
-  author: string;
+  repos: string[]; // "workspace/repo" names; empty shows all
+  dateRange: number; // Last N days, used when no custom range is set
+  startDate: string | null; // Custom range start, YYYY-MM-DD (inclusive)
+  endDate: string | null; // Custom range end, YYYY-MM-DD (inclusive); null runs up to today
+  authors: string[]; // Team member ids; empty shows everyone
+  workspaces: string[]; // Workspaces to show; empty shows all
   type: 'all' | 'commits' | 'pullrequests';
+  ticket: string; // Ticket key or prefix, e.g. "ASUITE-12" or "ASUITE"
+  branch: string; // Branch name or pattern with * wildcards
+  prStates: PrState[]; // Empty shows every state
+}
+
+// Export Types
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportRow {
+  date: string;
+  repo: string;
+  type: 'commit' | 'pull_request';
+  ticket: string;
+  title: string;
+  branch: string;
+  pr_state: string;
+}
+
+// Timesheet Types
+export interface TimesheetSettings {
+  idleGapMinutes: number; // A gap longer than this between commits starts a new session
+  leadInMinutes: number; // Work assumed to happen before the first commit of a session
+  roundToMinutes: number; // Granularity used when displaying hours
+}
+
+export interface WorkSession {
+  id: string;
+  authorId: string; // Team member id, see getItemAuthorId
+  ticket: string | null;
+  day: string; // Local YYYY-MM-DD of the first commit
+  start: string;
+  end: string;
+  durationMinutes: number;
+  repos: string[];
+  items: ProcessedCommit[];
+}
+
+export interface TimesheetGrid {
+  days: string[];
+  tickets: string[];
+  minutes: Record<string, Record<string, number>>; // ticket -> day -> minutes
+  ticketTotals: Record<string, number>;
+  dayTotals: Record<string, number>;
+  totalMinutes: number;
 }
 
 export interface DashboardMetrics {
@@ -205,6 +249,7 @@ export interface RepoActivity {
   count: number; // Alias for commits for backward compatibility
   pullRequests: number;
   lastActivity: string;
+  commitsByAuthor?: Record<string, number>; // Team member id -> commits, in team mode
 }
 
 // Background Job System Types
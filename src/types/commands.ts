@@ -0,0 +1,13 @@
+// Type definitions for the command palette and keyboard shortcuts
+
+export type CommandGroup = 'Navigation' | 'Actions' | 'Date range' | 'Table' | 'Views' | 'Repositories' | 'Tickets'
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: CommandGroup;
+  run: () => void;
+  shortcut?: string; // e.g. "mod+k", "shift+r" or the sequence "g d"; see services/keyboardShortcuts.ts
+  keywords?: string; // Extra words the palette search matches
+  hint?: string; // Shown next to the label, e.g. the current value
+}
@@ -0,0 +1,36 @@
+// Type definitions for the year-long contribution graph
+
+// The last 52 weeks up to today, or a calendar year
+export type ContributionPeriod = 'last-year' | number
+
+export interface ContributionDay {
+  date: string; // Local date key
+  commits: number;
+  prs: number;
+  count: number; // commits + prs
+  stored: boolean; // False before the stored history begins and after today
+}
+
+export interface ContributionMonth {
+  month: number; // 0-11
+  year: number;
+  commits: number;
+  prs: number;
+}
+
+export interface ContributionStreak {
+  days: number;
+  start: string; // Local date key
+  end: string;
+}
+
+export interface ContributionGraph {
+  weeks: (ContributionDay | null)[][]; // Columns of seven days, Monday first; null outside the period
+  total: number;
+  activeDays: number;
+  max: number; // Busiest day's count, for scaling the colours
+  currentStreak: ContributionStreak | null; // Only for periods that include today
+  longestStreak: ContributionStreak | null;
+  busiestDay: ContributionDay | null;
+  months: ContributionMonth[];
+}
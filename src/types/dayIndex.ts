@@ -0,0 +1,16 @@
+// Type definitions for activity bucketed by day
+
+import type { ProcessedCommit } from './bitbucket'
+
+export interface DayStats {
+  commits: number;
+  prs: number;
+  tickets: number;
+  repos: number;
+}
+
+export interface DayIndex {
+  days: Map<string, ProcessedCommit[]>; // Local YYYY-MM-DD key -> items of that day, in data order
+  times: Map<ProcessedCommit, number>; // Timestamp of every item, 0 without a date
+  stats: Map<string, DayStats>; // Filled in as days are asked for
+}
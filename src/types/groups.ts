@@ -0,0 +1,19 @@
+// Type definitions for grouping activity in the table
+
+import type { ProcessedCommit } from './bitbucket'
+
+export type GroupKey = 'day' | 'ticket' | 'repo' | 'branch' | 'pr'
+
+export interface ActivityGroup {
+  id: string; // Values from the top level down, e.g. "day:2026-09-05/ticket:ASUITE-12"
+  key: GroupKey;
+  value: string | null; // null collects items without a value, e.g. commits without a ticket
+  label: string;
+  items: ProcessedCommit[]; // All items in the group, nested groups included
+  children: ActivityGroup[]; // Empty at the innermost level
+  commits: number;
+  prs: number;
+  tickets: number;
+  first: Date | null;
+  last: Date | null;
+}
@@ -0,0 +1,10 @@
+// Type definitions for the weekday × hour activity heatmap
+
+export type HeatmapMode = 'commits' | 'prs'
+
+export interface ActivityHeatmap {
+  counts: number[][]; // [weekday][hour], Monday first, in local time
+  max: number; // Largest cell, for scaling the colours
+  total: number;
+  afterHours: number; // Items on weekends or outside WORKING_HOURS
+}
@@ -0,0 +1,16 @@
+// Type definitions for the user profile: who "you" are when fetching and matching activity
+
+export interface UserProfile {
+  displayName: string; // Matched against pull request author names
+  aliases: string[]; // Commit author emails or raw author strings such as "Name <email>"
+  username: string; // Bitbucket username, used when no email alias is set
+  workspaces: string[]; // Bitbucket workspaces you work in
+}
+
+// Author fields the Bitbucket requests are built from, derived from the profile
+export interface AuthorConfig {
+  apiUsername: string;
+  prAuthorDisplayName: string;
+  commitAuthorRaw: string;
+  authorEmail?: string;
+}
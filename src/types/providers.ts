@@ -0,0 +1,55 @@
+// Type definitions for pluggable activity providers (Bitbucket, GitHub, GitLab)
+
+import type { BitbucketRepository, ProcessedCommit } from './bitbucket'
+import type { TeamMember } from './team'
+
+export type ProviderType = 'bitbucket' | 'github' | 'gitlab'
+
+// A configured source of activity, edited in Settings and persisted locally
+export interface ProviderConnection {
+  id: string;
+  type: ProviderType;
+  workspace: string; // Bitbucket workspace, GitHub owner/org or GitLab group path
+  baseUrl: string; // Empty means the provider's default API URL
+  token: string;
+  username: string; // Author login used to filter activity
+  repositories: string[]; // Empty means every repository in the workspace
+  enabled: boolean;
+}
+
+export interface ActivityFetchParams {
+  maxDays: number;
+  selectedRepos: string[] | null;
+  forceRefresh: boolean;
+  since?: string | null; // ISO date; overrides maxDays as the lower bound for delta fetches
+  until?: string | null; // ISO date; exclusive upper bound when backfilling older activity
+  repository?: string | null; // "workspace/name"; narrows the fetch to that one repository
+  teammates?: TeamMember[]; // Fetched in addition to the connection's own author
+  signal?: AbortSignal;
+}
+
+// Date window a provider should fetch, derived from ActivityFetchParams
+export interface ActivityRange {
+  since: string;
+  until: string | null;
+}
+
+// Which part of a provider's history is stored in the persistent activity cache
+export interface ActivitySyncState {
+  providerId: string;
+  signature: string; // Connection settings the cached items were fetched with
+  coveredFrom: number; // Everything from this timestamp up to syncedAt is stored
+  latestItem: number | null;
+  syncedAt: number;
+  repos?: string[]; // Bitbucket repository selection the items were fetched with, sorted
+  stale?: boolean; // The next load refetches the whole window, e.g. after a backend refresh job
+}
+
+export interface ActivityProvider {
+  readonly id: string;
+  readonly type: ProviderType;
+  readonly label: string;
+  fetchActivity(params: ActivityFetchParams): Promise<ProcessedCommit[]>;
+  fetchRepositories(): Promise<BitbucketRepository[]>;
+  clearCache(): void;
+}
@@ -0,0 +1,50 @@
+// Type definitions for pull request lifecycle analytics
+
+import type { PrState } from './bitbucket'
+
+// One pull request, put together from its own item and the commits fetched with it
+export interface PullRequestRecord {
+  key: string; // repo:id, as in the activity cache
+  repo: string;
+  id: number | null;
+  title: string;
+  author: string | null;
+  state: PrState | null;
+  created: Date | null;
+  updated: Date | null;
+  commits: number; // Commits linked to the PR; 0 when the provider does not link them
+}
+
+export interface MergeTimeBucket {
+  label: string;
+  maxHours: number; // Upper bound of the bucket; Infinity for the last one
+  count: number;
+}
+
+export interface OpenPullRequest {
+  pr: PullRequestRecord;
+  ageDays: number; // Since it was opened
+  idleDays: number; // Since its last update
+}
+
+// PR throughput of one repository over the selected period
+export interface RepoPrTrend {
+  repo: string;
+  prs: number;
+  merged: number;
+  medianMergeHours: number | null;
+  opened: number[]; // PRs opened per bucket of the period (days, or weeks for long periods)
+}
+
+export interface PrAnalytics {
+  total: number;
+  states: Record<PrState, number>;
+  declinedRatio: number; // Share of closed PRs, 0-1
+  supersededRatio: number; // Share of closed PRs, 0-1
+  mergeTimes: MergeTimeBucket[];
+  medianMergeHours: number | null;
+  openPrs: OpenPullRequest[]; // Oldest first
+  commitsPerPr: { average: number; median: number; prs: number } | null; // null when no PR has linked commits
+  repos: RepoPrTrend[]; // Most PRs first
+  bucketDays: number; // Length of one `opened` bucket
+}
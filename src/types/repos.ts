@@ -0,0 +1,28 @@
+// Type definitions for the repository page
+
+import type { PrState, ProcessedCommit } from './bitbucket'
+
+export interface RepoBranchActivity {
+  branch: string;
+  commits: number;
+  last: Date | null;
+}
+
+export interface RepoTicketActivity {
+  key: string;
+  items: number;
+  last: Date | null;
+}
+
+// Everything done in one repository, for the repository page
+export interface RepoActivitySummary {
+  repo: string;
+  items: ProcessedCommit[]; // Newest first
+  commits: number;
+  prs: number;
+  branches: RepoBranchActivity[]; // Most recently active first
+  tickets: RepoTicketActivity[]; // Most recently active first
+  prStates: Partial<Record<PrState, number>>;
+  first: Date | null;
+  last: Date | null;
+}
@@ -0,0 +1,52 @@
+// Type definitions for the activity table's search query language
+
+import type { ProcessedCommit } from './bitbucket'
+
+export type SearchField = 'repo' | 'ticket' | 'type' | 'state' | 'branch' | 'author' | 'after' | 'before' | 'weekday' | 'hour'
+
+// `field:value`; a comma-separated value matches any of its parts, a leading "-" excludes
+export interface SearchFieldFilter {
+  field: SearchField;
+  values: string[];
+  negated: boolean;
+}
+
+// A free word (matched at the start of a word) or a "quoted phrase" (matched anywhere)
+export interface SearchTextTerm {
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  filters: SearchFieldFilter[];
+  terms: SearchTextTerm[];
+}
+
+// Activity with its searchable values prepared once per data set
+export interface IndexedActivity {
+  item: ProcessedCommit;
+  repo: string;
+  ticket: string | null;
+  branch: string | null;
+  author: string;
+  type: 'pr' | 'commit';
+  state: string;
+  time: number;
+  weekday: number; // Local day of the week, 0 = Sunday; -1 without a date
+  hour: number; // Local hour, 0-23; -1 without a date
+  text: string;
+}
+
+export interface SearchIndex {
+  entries: IndexedActivity[];
+  tokens: string[]; // Every word in the text, sorted, for prefix lookups
+  postings: Map<string, number[]>; // Word -> positions in `entries`
+  values: Record<'repo' | 'ticket' | 'branch' | 'author', string[]>; // Known values for autocomplete
+}
+
+// Part of a text split around the search matches, for highlighting
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
@@ -0,0 +1,22 @@
+// Type definitions for team mode: a roster of authors whose activity is fetched and compared
+
+import type { ProviderType } from './providers'
+
+export interface TeamMember {
+  id: string;
+  name: string; // Display name, also matched against pull request author names
+  color: string; // Used for this author in charts and breakdowns
+  emails: string[]; // Commit author emails
+  accounts: Partial<Record<ProviderType, string>>; // Login per provider; the Bitbucket backend also accepts an email
+}
+
+// Counts for one author, shown as a column next to the totals
+export interface AuthorMetrics {
+  authorId: string; // Team member id, or OTHER_AUTHOR_ID for activity nobody on the roster matches
+  name: string;
+  color: string;
+  commits: number;
+  prs: number;
+  tickets: number;
+  repos: number;
+}
@@ -0,0 +1,77 @@
+// Type definitions for the configurable ticket recognition engine
+
+import type { PrState, ProcessedCommit } from './bitbucket'
+
+// A user-editable rule; the first capture group (or the whole match) is the ticket reference
+export interface TicketPattern {
+  id: string;
+  label: string;
+  pattern: string; // Regular expression source
+  caseSensitive: boolean;
+  priority: number; // Higher wins when several patterns match
+  enabled: boolean;
+}
+
+// Bare issue numbers ("#42", "fix/42-login") in this repository resolve to `${projectKey}-42`
+export interface RepoProjectKey {
+  repo: string; // "workspace/name" or just the repository name
+  projectKey: string;
+}
+
+export interface TicketPatternSettings {
+  patterns: TicketPattern[];
+  repoProjectKeys: RepoProjectKey[];
+}
+
+export type TicketSource = 'branch' | 'commit message' | 'PR title' | 'backend'
+
+export interface TicketMatch {
+  ticket: string;
+  raw: string; // Text that matched, before normalisation
+  patternId: string;
+  priority: number;
+  index: number; // Position in the searched text
+}
+
+export interface ResolvedTicket {
+  ticket: string;
+  source: TicketSource;
+  patternId: string | null; // null when the backend supplied the ticket
+}
+
+export type TicketStatusCategory = 'todo' | 'in_progress' | 'done'
+
+// Issue-tracker details for a ticket key, shown next to activity
+export interface TicketMetadata {
+  key: string;
+  id?: string; // Jira's numeric issue id; missing from entries cached before it was stored
+  summary: string;
+  status: string;
+  statusCategory: TicketStatusCategory | null;
+  issueType: string | null;
+  epic: { key: string; summary: string } | null;
+}
+
+// Connection to a Jira-compatible REST API (Jira Cloud/Server, or scripts/mock-tracker.mjs)
+export interface IssueTrackerSettings {
+  enabled: boolean;
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+}
+
+// Everything done on one ticket, for the ticket page
+export interface TicketActivitySummary {
+  key: string;
+  items: ProcessedCommit[]; // Oldest first, each commit or PR once
+  commits: number;
+  prs: number;
+  repos: { repo: string; commits: number; prs: number }[]; // Most active first
+  branches: string[];
+  prStates: Partial<Record<PrState, number>>;
+  first: Date | null;
+  last: Date | null;
+  effortMinutes: number; // Work sessions on this ticket, as on the Timesheet; the sum of effortByAuthor
+  effortByAuthor: { authorId: string; minutes: number }[]; // Most effort first
+  sessions: number;
+}
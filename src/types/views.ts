@@ -0,0 +1,26 @@
+// Type definitions for saved views: named filter combinations pinned in the navigation
+
+import type { AppFilters } from './bitbucket'
+
+export type ViewPage = '/' | '/details' | '/calendar' | '/timesheet'
+
+// A period that moves with the calendar; overrides the dates in the saved filters
+export type RelativePeriod = 'this-week' | 'this-month' | 'last-month'
+
+export interface SavedView {
+  id: string;
+  name: string;
+  page: ViewPage; // Page the view opens on
+  filters: AppFilters;
+  period: RelativePeriod | null; // null keeps the saved dates (or "last N days" preset) as they are
+  sort: string | null; // Details table sort, e.g. "-date"
+  pinned: boolean; // Shown in the navigation bar
+  builtIn?: boolean; // Shipped with the app; can be pinned but not edited or removed
+}
+
+// Shape of an exported views file
+export interface SavedViewsExport {
+  version: 1;
+  exportedAt: string;
+  views: SavedView[];
+}
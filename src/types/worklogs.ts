@@ -0,0 +1,47 @@
+// Type definitions for submitting time entries to a worklog API
+
+// Tempo: POST {endpoint}/worklogs with a Jira issue id; Harvest: POST {endpoint}/time_entries with project and task ids
+export type WorklogFormat = 'tempo' | 'harvest'
+
+export interface WorklogSettings {
+  format: WorklogFormat;
+  endpoint: string; // API base, e.g. https://api.tempo.io/4 or https://api.harvestapp.com/v2
+  apiToken: string;
+  authorAccountId: string; // Tempo: Atlassian account id the time is booked for
+  harvestAccountId: string;
+  harvestProjectId: string;
+  harvestTaskId: string;
+  minutesPerItem: number; // Default duration per item when logging selected activity
+}
+
+export type WorklogSource = 'session' | 'activity'
+
+// An entry in the review step, editable until it is sent
+export interface WorklogDraft {
+  id: string;
+  source: WorklogSource;
+  itemKeys: string[]; // Activity keys (see getActivityKey) booked by this entry
+  ticket: string | null;
+  date: string; // Local YYYY-MM-DD
+  startTime: string; // Local HH:mm
+  durationMinutes: number;
+  description: string;
+}
+
+// Record of a sent entry, kept so the same activity is not booked twice
+export interface SubmittedWorklog {
+  id: string;
+  remoteId: string | null;
+  format: WorklogFormat;
+  ticket: string;
+  date: string;
+  durationMinutes: number;
+  description: string;
+  itemKeys: string[];
+  submittedAt: string;
+}
+
+export interface WorklogSubmitResult {
+  submitted: SubmittedWorklog[];
+  failed: { draft: WorklogDraft; error: string }[];
+}